@@ -13,6 +13,8 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Switch } from "@/components/ui/switch"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import {
   Wallet,
   Loader2,
@@ -26,11 +28,24 @@ import {
   Layers,
   Zap,
   Camera,
+  Printer,
+  RotateCcw,
+  Trash2,
+  Boxes,
+  Pencil,
+  Download,
+  Eye,
+  Send,
+  Flame,
+  FlaskConical,
+  Settings2,
+  ChevronDown,
 } from "lucide-react"
 import { useWallet } from "@solana/wallet-adapter-react"
 import { WalletMultiButton } from "@solana/wallet-adapter-react-ui"
 import { toast } from "@/hooks/use-toast"
 import { DraggableAttributes } from "@/components/ui/draggable-attributes"
+import { CreatorShares } from "@/components/ui/creator-shares"
 import {
   CONFIG,
   type NetworkType,
@@ -39,12 +54,50 @@ import {
   getTransactionUrl,
   getTokenUrl,
 } from "@/lib/config"
-import { validateNFTMetadata, sanitizeMetadata, validateSolanaAddress, type NFTFormData } from "@/lib/validation"
+import {
+  validateNFTMetadata,
+  sanitizeMetadata,
+  validateSolanaAddress,
+  parseRecipientList,
+  type NFTFormData,
+  type NftProgram,
+  type NftTokenStandard,
+} from "@/lib/validation"
 import { ipfsService } from "@/lib/ipfs-service"
-import { enhancedMetaplexService, type EnhancedMintResult, type BatchMintResult } from "@/lib/enhanced-metaplex-service"
+import {
+  enhancedMetaplexService,
+  type EnhancedMintResult,
+  type BatchMintResult,
+  type DryRunReport as DryRunReportData,
+} from "@/lib/enhanced-metaplex-service"
+import { token2022Service } from "@/lib/token-2022-service"
+import type { PipelineItemStatus } from "@/lib/mint-pipeline"
+import type { ConfirmationState } from "@/lib/confirmation-tracker"
+import { mintJournal, getJobProgress, type MintJob } from "@/lib/mint-journal"
+import type { PriorityFeeStrategy } from "@/lib/compute-budget"
 import { getErrorMessage } from "@/lib/errors"
 import { DragDropUpload } from "@/components/ui/drag-drop-upload"
 import { SnapshotTool } from "@/components/snapshot-tool"
+import { EditNftTool } from "@/components/edit-nft-tool"
+import { BulkUpdateTool } from "@/components/bulk-update-tool"
+import { TransferTool } from "@/components/transfer-tool"
+import { BurnTool } from "@/components/burn-tool"
+import { DryRunReport } from "@/components/dry-run-report"
+import { VerificationReport } from "@/components/verification-report"
+import { buildExpectations, type MintIntent, type MintVerification } from "@/lib/mint-verification"
+import {
+  DEFAULT_MINTING_ENGINE,
+  MINTING_ENGINES,
+  getMintingEngine,
+  getUnsupportedOptions,
+  loadEngineSelection,
+  saveEngineSelection,
+  type MintingEngineId,
+} from "@/lib/minting-engine"
+import { generateBulkUpdateTemplate } from "@/lib/bulk-update"
+import { downloadCsv } from "@/lib/csv"
+import { computeProvenanceHash, hashFile } from "@/lib/provenance"
+import { buildMetadataJson } from "@/lib/nft-metadata"
 import { Footer } from "@/components/footer"
 
 interface MintingStep {
@@ -53,6 +106,14 @@ interface MintingStep {
   status: "pending" | "active" | "completed" | "error"
 }
 
+const CONFIRMATION_LABELS: Record<ConfirmationState, string> = {
+  pending: "awaiting confirmation",
+  confirmed: "confirmed",
+  finalized: "finalized",
+  expired: "expired before landing",
+  failed: "failed with a program error",
+}
+
 function NFTMinter() {
   const { connected, publicKey, wallet } = useWallet()
 
@@ -64,25 +125,68 @@ function NFTMinter() {
   const [mintingProgress, setMintingProgress] = useState(0)
   const [currentStep, setCurrentStep] = useState("")
   const [estimatedCost, setEstimatedCost] = useState<number | null>(null)
+  const [concurrency, setConcurrency] = useState<number>(CONFIG.MINTING.defaultConcurrency)
+  const [priorityFee, setPriorityFee] = useState<PriorityFeeStrategy>({ type: "none" })
+  const [priorityFeeEstimate, setPriorityFeeEstimate] = useState<{
+    microLamports: number
+    lamportsPerMint: number
+  } | null>(null)
+  const [itemStatuses, setItemStatuses] = useState<Record<number, PipelineItemStatus>>({})
+  // e.g. "48 confirmed, 2 expired before landing" for the items' latest transactions
+  const confirmationSummary = (Object.keys(CONFIRMATION_LABELS) as ConfirmationState[])
+    .map((state) => [state, Object.values(itemStatuses).filter((item) => item.confirmation === state).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([state, count]) => `${count} ${CONFIRMATION_LABELS[state]}`)
+    .join(", ")
+  const [unfinishedJobs, setUnfinishedJobs] = useState<MintJob[]>([])
+  const [unrevealedJobs, setUnrevealedJobs] = useState<MintJob[]>([])
+  const [revealingJobId, setRevealingJobId] = useState<string | null>(null)
+  const [dryRunReport, setDryRunReport] = useState<DryRunReportData | null>(null)
+  const [dryRunStep, setDryRunStep] = useState("")
+  const [mintIntent, setMintIntent] = useState<MintIntent | null>(null)
+  const [verifications, setVerifications] = useState<MintVerification[]>([])
+  const [verifyStep, setVerifyStep] = useState("")
+  const [engineSelection, setEngineSelection] = useState<Partial<Record<NetworkType, MintingEngineId>>>({})
 
   // Enhanced form state
   const [formData, setFormData] = useState<NFTFormData>({
     name: "",
+    symbol: CONFIG.NFT.defaultSymbol,
     description: "",
     image: null,
     images: [],
+    unrevealed: false,
+    placeholderImage: null,
     attributes: [{ trait_type: "", value: "" }],
     royalty: 500, // 5%
     collection: "",
     mintType: "single",
     recipientAddress: "",
     recipients: [],
+    creators: [],
+    isMutable: true,
+    updateAuthority: "",
+    tokenStandard: "NonFungible",
+    ruleSet: "",
+    program: "token-metadata",
+    freezable: false,
+    soulbound: false,
+    masterEdition: "",
+    maxSupply: 10,
+    editionCount: 1,
+    merkleTree: "",
+    compressedCount: 100,
   })
 
   const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [validationErrors, setValidationErrors] = useState<string[]>([])
   const [recipientList, setRecipientList] = useState<string>("")
 
+  // Token Metadata single and collection mints run on the engine picked for the network
+  const mintingEngine = getMintingEngine(engineSelection[network])
+  const usesMintingEngine =
+    formData.program === "token-metadata" && (formData.mintType === "single" || formData.mintType === "collection")
+
   // Enhanced minting steps
   const [mintingSteps, setMintingSteps] = useState<MintingStep[]>([
     { id: "validate", label: "Validate metadata", status: "pending" },
@@ -94,27 +198,112 @@ function NFTMinter() {
     { id: "confirm", label: "Confirm transactions", status: "pending" },
   ])
 
+  useEffect(() => {
+    setEngineSelection(loadEngineSelection())
+  }, [])
+
+  const selectEngine = (engine: MintingEngineId) => {
+    const selection = { ...engineSelection, [network]: engine }
+    setEngineSelection(selection)
+    saveEngineSelection(selection)
+  }
+
   // Load estimated cost when network or mint type changes
   useEffect(() => {
     if (connected) {
       loadEstimatedCost()
     }
-  }, [network, connected, formData.mintType, formData.images?.length])
+  }, [
+    network,
+    connected,
+    formData.mintType,
+    formData.images?.length,
+    formData.collection,
+    formData.editionCount,
+    formData.masterEdition,
+    formData.compressedCount,
+    formData.merkleTree,
+    formData.tokenStandard,
+    formData.program,
+    formData.soulbound,
+    // Token-2022 rent grows with the metadata stored in the mint
+    formData.name,
+    formData.symbol,
+    formData.attributes,
+    priorityFee,
+    mintingEngine,
+  ])
 
   const loadEstimatedCost = async () => {
     try {
       let quantity = 1
       if (formData.mintType === "collection") {
         quantity = formData.images?.length || 1
+      } else if (formData.mintType === "editions") {
+        quantity = formData.editionCount || 1
+      } else if (formData.mintType === "compressed") {
+        quantity = formData.compressedCount || 1
       }
 
-      const cost = await enhancedMetaplexService.estimateMintingCost(network, formData.mintType, quantity)
+      const includeParentNft =
+        ((formData.mintType === "collection" || formData.mintType === "compressed") && !formData.collection?.trim()) ||
+        (formData.mintType === "editions" && !formData.masterEdition?.trim())
+
+      // Token-2022 rent depends on the metadata stored in the mint, so it's sized from the form
+      const cost =
+        formData.program === "token-2022"
+          ? await token2022Service.estimateMintingCost(
+              network,
+              { name: formData.name, symbol: formData.symbol, attributes: formData.attributes },
+              priorityFee,
+              formData.soulbound,
+            )
+          : usesMintingEngine
+            ? await mintingEngine.estimateCost(network, {
+                mintType: formData.mintType === "collection" ? "collection" : "single",
+                quantity,
+                includeParentNft,
+                tokenStandard: formData.tokenStandard,
+                priorityFee,
+              })
+            : await enhancedMetaplexService.estimateMintingCost(
+                network,
+                formData.mintType,
+                quantity,
+                includeParentNft,
+                priorityFee,
+                formData.tokenStandard,
+                formData.mintType === "compressed" && !formData.merkleTree?.trim(),
+                formData.program,
+              )
       setEstimatedCost(cost)
+      setPriorityFeeEstimate(await enhancedMetaplexService.estimatePriorityFee(network, priorityFee))
     } catch (error) {
       console.error("Failed to estimate cost:", error)
     }
   }
 
+  // Interrupted collection jobs for this wallet and network that can be resumed, and minted drops awaiting a reveal
+  useEffect(() => {
+    loadUnfinishedJobs()
+  }, [network, connected, publicKey])
+
+  const loadUnfinishedJobs = async () => {
+    if (!connected || !publicKey) {
+      setUnfinishedJobs([])
+      setUnrevealedJobs([])
+      return
+    }
+
+    try {
+      const jobs = await mintJournal.listJobs({ wallet: publicKey.toString(), network })
+      setUnfinishedJobs(jobs.filter((job) => job.status === "in-progress"))
+      setUnrevealedJobs(jobs.filter((job) => job.status === "completed" && job.reveal && !job.reveal.revealedAt))
+    } catch (error) {
+      console.error("Failed to load mint jobs:", error)
+    }
+  }
+
   const updateStep = (stepId: string, status: MintingStep["status"]) => {
     setMintingSteps((prev) => prev.map((step) => (step.id === stepId ? { ...step, status } : step)))
   }
@@ -141,22 +330,7 @@ function NFTMinter() {
     setRecipientList(value)
 
     // Parse recipients from textarea (one address per line)
-    const allAddresses = value
-      .split("\n")
-      .map((addr) => addr.trim())
-      .filter((addr) => addr.length > 0)
-
-    // Separate valid and invalid addresses
-    const validAddresses: string[] = []
-    const invalidAddresses: string[] = []
-
-    for (const address of allAddresses) {
-      if (validateSolanaAddress(address)) {
-        validAddresses.push(address)
-      } else {
-        invalidAddresses.push(address)
-      }
-    }
+    const { valid: validAddresses, invalid: invalidAddresses } = parseRecipientList(value)
 
     setFormData((prev) => ({ ...prev, recipients: validAddresses }))
 
@@ -188,6 +362,396 @@ function NFTMinter() {
     }
   }
 
+  const resetMintingState = () => {
+    setIsLoading(true)
+    setMintResult(null)
+    setBatchResult(null)
+    setVerifications([])
+    setMintingProgress(0)
+    setItemStatuses({})
+    setMintingSteps((prev) => prev.map((step) => ({ ...step, status: "pending" })))
+  }
+
+  const handleMintingError = (error: unknown) => {
+    const errorMessage = getErrorMessage(error)
+    console.error("Minting error:", error)
+
+    // Update current step to error
+    const activeStep = mintingSteps.find((step) => step.status === "active")
+    if (activeStep) {
+      updateStep(activeStep.id, "error")
+    }
+
+    toast({
+      title: "Minting Failed",
+      description: errorMessage,
+      variant: "destructive",
+    })
+  }
+
+  const recordJournalUpdate = (update: Promise<unknown>) => {
+    update.catch((error) => console.error("Failed to update mint journal:", error))
+  }
+
+  const uploadJobImages = async (job: MintJob) => {
+    const fileBaseName = job.name.replace(/\s+/g, "_")
+
+    for (const item of job.items) {
+      if (item.imageUri) continue
+      if (!item.file) throw new Error(`Image ${item.index + 1} is missing from the saved mint job`)
+
+      setCurrentStep(`Uploading image ${item.index + 1} of ${job.items.length} to IPFS...`)
+      const file = new File([item.file], item.fileName, { type: item.fileType })
+      item.imageUri = await ipfsService.uploadFile(
+        file,
+        `${fileBaseName}_${item.index + 1}.${item.fileName.split(".").pop()}`,
+      )
+      item.file = undefined
+      await mintJournal.updateItem(job.id, item.index, { imageUri: item.imageUri, file: undefined })
+    }
+  }
+
+  const uploadJobMetadata = async (job: MintJob) => {
+    for (const item of job.items) {
+      if (item.metadataUri) continue
+
+      const metadata = buildMetadataJson({
+        name: `${job.name} #${item.index + 1}`,
+        symbol: job.symbol,
+        description: job.description,
+        imageUri: item.imageUri!,
+        fileType: item.fileType,
+        attributes: job.attributes,
+        royalty: job.royalty,
+        creators: job.creators,
+        wallet: job.wallet,
+      })
+
+      item.metadataUri = await ipfsService.uploadJSON(metadata, `metadata_${item.index + 1}.json`)
+      await mintJournal.updateItem(job.id, item.index, { metadataUri: item.metadataUri })
+      setCurrentStep(`Uploading metadata ${item.index + 1} of ${job.items.length} to IPFS...`)
+    }
+  }
+
+  // Hashes the final art for the provenance hash and uploads the shared placeholder; the final art stays
+  // in the journal until the reveal
+  const prepareUnrevealedJob = async (job: MintJob) => {
+    const reveal = job.reveal!
+
+    for (const item of job.items) {
+      if (item.imageHash) continue
+      if (!item.file) throw new Error(`Image ${item.index + 1} is missing from the saved mint job`)
+
+      setCurrentStep(`Hashing image ${item.index + 1} of ${job.items.length}...`)
+      item.imageHash = await hashFile(item.file)
+      await mintJournal.updateItem(job.id, item.index, { imageHash: item.imageHash })
+    }
+
+    if (!reveal.provenanceHash) {
+      reveal.provenanceHash = await computeProvenanceHash(job.items.map((item) => item.imageHash!))
+      await mintJournal.updateJob(job.id, { reveal })
+    }
+
+    if (!reveal.placeholderImageUri) {
+      if (!reveal.placeholderFile) throw new Error("Placeholder image is missing from the saved mint job")
+
+      setCurrentStep("Uploading placeholder image to IPFS...")
+      const file = new File([reveal.placeholderFile], reveal.placeholderFileName, { type: reveal.placeholderFileType })
+      reveal.placeholderImageUri = await ipfsService.uploadFile(
+        file,
+        `placeholder.${reveal.placeholderFileName.split(".").pop()}`,
+      )
+      reveal.placeholderFile = undefined
+      await mintJournal.updateJob(job.id, { reveal })
+    }
+
+    if (!reveal.placeholderMetadataUri) {
+      setCurrentStep("Uploading placeholder metadata to IPFS...")
+      const metadata = buildMetadataJson({
+        name: job.name,
+        symbol: job.symbol,
+        description: job.description,
+        imageUri: reveal.placeholderImageUri,
+        fileType: reveal.placeholderFileType,
+        attributes: [],
+        royalty: job.royalty,
+        creators: job.creators,
+        wallet: job.wallet,
+      })
+      reveal.placeholderMetadataUri = await ipfsService.uploadJSON(
+        { ...metadata, provenance_hash: reveal.provenanceHash },
+        "placeholder.json",
+      )
+      await mintJournal.updateJob(job.id, { reveal })
+    }
+  }
+
+  // Uploads and mints a journaled collection job, skipping anything a previous run already finished
+  const runCollectionJob = async (job: MintJob) => {
+    if (!wallet) throw new Error("Wallet not connected")
+
+    setMintIntent({
+      wallet: job.wallet,
+      program: job.program,
+      name: job.name,
+      numbered: true,
+      recipients: job.recipients,
+      creators: job.creators ?? [],
+      engine: job.engine,
+    })
+
+    // Step 2: Upload images
+    updateStep("upload-images", "active")
+    setCurrentStep("Uploading images to IPFS...")
+
+    if (job.reveal) {
+      await prepareUnrevealedJob(job)
+    } else {
+      await uploadJobImages(job)
+    }
+
+    updateStep("upload-images", "completed")
+    setMintingProgress(25)
+
+    // Step 3: Upload metadata
+    updateStep("upload-metadata", "active")
+    setCurrentStep("Uploading metadata to IPFS...")
+
+    if (!job.reveal) {
+      await uploadJobMetadata(job)
+    }
+
+    // The collection NFT itself needs metadata unless we're minting into an existing collection
+    if (!job.collectionMint && !job.collectionMetadataUri) {
+      setCurrentStep("Uploading collection metadata to IPFS...")
+      const { attributes, ...collectionMetadata } = buildMetadataJson({
+        name: job.name,
+        symbol: job.symbol,
+        description: job.description,
+        imageUri: job.reveal ? job.reveal.placeholderImageUri! : job.items[0].imageUri!,
+        fileType: job.reveal ? job.reveal.placeholderFileType : job.items[0].fileType,
+        attributes: [],
+        royalty: job.royalty,
+        creators: job.creators,
+        wallet: job.wallet,
+      })
+      job.collectionMetadataUri = await ipfsService.uploadJSON(
+        { ...collectionMetadata, ...(job.reveal && { provenance_hash: job.reveal.provenanceHash }) },
+        "collection.json",
+      )
+      await mintJournal.updateJob(job.id, { collectionMetadataUri: job.collectionMetadataUri })
+    }
+
+    updateStep("upload-metadata", "completed")
+    setMintingProgress(37)
+
+    // Step 4: Estimate cost
+    updateStep("estimate-cost", "active")
+    setCurrentStep("Estimating minting cost...")
+
+    await loadEstimatedCost()
+
+    updateStep("estimate-cost", "completed")
+    setMintingProgress(50)
+
+    // Step 5: Setup UMI
+    updateStep("setup-umi", "active")
+    setCurrentStep("Setting up Metaplex UMI...")
+
+    // Small delay to ensure UI updates
+    await new Promise((resolve) => setTimeout(resolve, 100))
+
+    updateStep("setup-umi", "completed")
+    setMintingProgress(62)
+
+    // Step 6: Create NFTs
+    updateStep("create-nfts", "active")
+    setCurrentStep("Creating NFTs...")
+
+    const engine = getMintingEngine(job.engine)
+    if (!engine.mintBatch) throw new Error(`${engine.name} can't mint collections`)
+    const result = await engine.mintBatch({
+      collectionName: job.name,
+      description: job.description,
+      // Unrevealed NFTs all point at the placeholder until the reveal
+      imageUris: job.items.map((item) => job.reveal?.placeholderImageUri ?? item.imageUri!),
+      metadataUris: job.items.map((item) => job.reveal?.placeholderMetadataUri ?? item.metadataUri!),
+      royalty: job.royalty,
+      wallet: wallet.adapter,
+      network: job.network,
+      recipients: job.recipients,
+      creators: job.creators,
+      symbol: job.symbol || undefined,
+      isMutable: job.isMutable,
+      updateAuthority: job.updateAuthority,
+      tokenStandard: job.tokenStandard,
+      ruleSet: job.ruleSet,
+      program: job.program,
+      freezable: job.freezable,
+      soulbound: job.soulbound,
+      collectionMint: job.collectionMint,
+      collectionMetadataUri: job.collectionMetadataUri,
+      concurrency,
+      priorityFee,
+      completedResults: job.items.flatMap((item) => (item.mintResult ? [item.mintResult] : [])),
+      pendingAttempts: job.items.flatMap((item) =>
+        !item.mintResult && item.pendingAttempt ? [item.pendingAttempt] : [],
+      ),
+      onCollectionReady: (collectionMint) => {
+        job.collectionMint = collectionMint
+        recordJournalUpdate(mintJournal.updateJob(job.id, { collectionMint }))
+      },
+      // Not fire-and-forget: the attempt has to be in the journal before the transaction can land
+      onItemSigned: async (attempt) => {
+        await mintJournal.updateItem(job.id, attempt.index, { pendingAttempt: attempt })
+      },
+      onItemMinted: (index, mintResult) => {
+        recordJournalUpdate(mintJournal.updateItem(job.id, index, { mintResult }))
+      },
+      onProgress: (message, current, total, item) => {
+        if (item) {
+          setItemStatuses((prev) => ({ ...prev, [item.index]: item }))
+          // Finalization arrives after the item is done, often after the whole run; it only updates the grid
+          if (item.state === "queued" || item.confirmation === "finalized") return
+        }
+        setCurrentStep(message)
+        if (current && total) {
+          const progressPercent = 62 + (current / total) * 25
+          setMintingProgress(progressPercent)
+        }
+        if (message.includes("Collection minting complete")) {
+          updateStep("create-nfts", "completed")
+          setMintingProgress(87)
+          updateStep("confirm", "active")
+          setCurrentStep("Confirming transactions...")
+        }
+      },
+    })
+
+    if (result.failed === 0) {
+      await mintJournal.updateJob(job.id, { status: "completed" })
+    }
+    if (result.signingRejected) {
+      toast({
+        title: "Minting Paused",
+        description: `Wallet approval was declined after ${result.totalMinted} of ${job.items.length} NFTs. Resume the job to mint the rest.`,
+      })
+    }
+
+    setBatchResult(result)
+    updateStep("confirm", "completed")
+    setMintingProgress(100)
+  }
+
+  // Every finished mint is read back from chain and checked against what the form asked for
+  useEffect(() => {
+    if (mintResult || batchResult) runVerification()
+  }, [mintResult, batchResult])
+
+  const runVerification = async () => {
+    const results = mintResult ? [mintResult] : (batchResult?.results ?? [])
+    if (results.length === 0 || !mintIntent) return
+
+    setVerifications([])
+    setVerifyStep("Verifying minted NFTs...")
+    try {
+      const intent = { ...mintIntent, collection: batchResult?.collectionMint }
+      setVerifications(
+        await getMintingEngine(intent.engine).verify({
+          items: buildExpectations(results, intent),
+          network,
+          program: intent.program,
+          concurrency,
+          onProgress: (message) => setVerifyStep(message),
+        }),
+      )
+    } catch (error) {
+      console.error("Verification failed:", error)
+      toast({
+        title: "Verification Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setVerifyStep("")
+    }
+  }
+
+  // Rehearses the mint against the RPC without uploading anything or asking the wallet to sign
+  // Dry runs cover the Token Metadata and Core single and collection flows of the default engine
+  const dryRunUnavailableReason =
+    formData.mintType === "editions" || formData.mintType === "compressed"
+      ? `Dry runs aren't available for ${formData.mintType === "editions" ? "print editions" : "compressed NFTs"} yet`
+      : formData.program === "token-2022"
+        ? "Dry runs aren't available for Token-2022 mints yet"
+        : usesMintingEngine && mintingEngine.id !== DEFAULT_MINTING_ENGINE
+          ? `Dry runs simulate the default engine, not ${mintingEngine.name}`
+          : null
+
+  const handleDryRun = async () => {
+    if (!connected || !publicKey || !wallet || dryRunUnavailableReason) return
+
+    const validation = validateNFTMetadata(formData)
+    if (!validation.isValid) {
+      setValidationErrors(validation.errors)
+      return
+    }
+    setValidationErrors([])
+
+    const sanitized = sanitizeMetadata(formData)
+    setDryRunReport(null)
+    setDryRunStep("Preparing dry run...")
+
+    try {
+      const report = await enhancedMetaplexService.simulateMint({
+        mintType: formData.mintType === "collection" ? "collection" : "single",
+        name: sanitized.name,
+        quantity: formData.images?.length || 1,
+        royalty: sanitized.royalty,
+        wallet: wallet.adapter,
+        network,
+        recipients:
+          formData.mintType === "collection"
+            ? sanitized.recipients
+            : sanitized.recipientAddress
+              ? [sanitized.recipientAddress]
+              : undefined,
+        creators: sanitized.creators,
+        symbol: sanitized.symbol || undefined,
+        isMutable: sanitized.isMutable,
+        updateAuthority: sanitized.updateAuthority || undefined,
+        tokenStandard: sanitized.tokenStandard,
+        ruleSet: sanitized.ruleSet || undefined,
+        program: sanitized.program,
+        freezable: sanitized.freezable,
+        soulbound: sanitized.soulbound,
+        collectionMint: (formData.mintType === "collection" && sanitized.collection) || undefined,
+        concurrency,
+        priorityFee,
+        onProgress: (message) => setDryRunStep(message),
+      })
+
+      setDryRunReport(report)
+      toast({
+        title: "Dry Run Complete",
+        description:
+          report.failed === 0
+            ? `All ${report.items.length} transactions simulated successfully`
+            : `${report.failed} of ${report.items.length} transactions would fail`,
+        variant: report.failed === 0 ? "default" : "destructive",
+      })
+    } catch (error) {
+      console.error("Dry run failed:", error)
+      toast({
+        title: "Dry Run Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setDryRunStep("")
+    }
+  }
+
   const handleMint = async () => {
     if (!connected || !publicKey || !wallet) {
       toast({
@@ -199,11 +763,7 @@ function NFTMinter() {
     }
 
     // Reset state
-    setIsLoading(true)
-    setMintResult(null)
-    setBatchResult(null)
-    setMintingProgress(0)
-    setMintingSteps((prev) => prev.map((step) => ({ ...step, status: "pending" })))
+    resetMintingState()
 
     try {
       // Step 1: Validate metadata
@@ -211,8 +771,9 @@ function NFTMinter() {
       setCurrentStep("Validating metadata...")
 
       const validation = validateNFTMetadata(formData)
-      if (!validation.isValid) {
-        setValidationErrors(validation.errors)
+      const unsupported = usesMintingEngine ? getUnsupportedOptions(mintingEngine, formData, { priorityFee }) : []
+      if (!validation.isValid || unsupported.length > 0) {
+        setValidationErrors([...validation.errors, ...unsupported])
         updateStep("validate", "error")
         return
       }
@@ -222,167 +783,263 @@ function NFTMinter() {
 
       const sanitized = sanitizeMetadata(formData)
 
-      // Step 2: Upload images
-      updateStep("upload-images", "active")
-      setCurrentStep("Uploading images to IPFS...")
-
-      let imageUris: string[] = []
-
-      if (formData.mintType === "single") {
-        if (!formData.image) throw new Error("Image is required")
-        const imageUri = await ipfsService.uploadFile(
-          formData.image,
-          `${sanitized.name.replace(/\s+/g, "_")}.${formData.image.name.split(".").pop()}`,
-        )
-        imageUris = [imageUri]
-      } else if (formData.mintType === "collection") {
-        if (!formData.images || formData.images.length === 0) throw new Error("Images are required for collection")
-
-        for (let i = 0; i < formData.images.length; i++) {
-          const file = formData.images[i]
-          const imageUri = await ipfsService.uploadFile(
-            file,
-            `${sanitized.name.replace(/\s+/g, "_")}_${i + 1}.${file.name.split(".").pop()}`,
-          )
-          imageUris.push(imageUri)
-          setCurrentStep(`Uploading image ${i + 1} of ${formData.images.length} to IPFS...`)
-        }
+      // Collection jobs record their own intent, since they can also be resumed later
+      if (formData.mintType !== "collection") {
+        setMintIntent({
+          wallet: publicKey.toString(),
+          program: sanitized.program,
+          // Prints copy their name and creators from the master edition
+          ...(formData.mintType !== "editions" && { name: sanitized.name }),
+          recipients: formData.mintType === "single" ? [sanitized.recipientAddress || ""] : sanitized.recipients,
+          ...(formData.mintType !== "editions" &&
+            sanitized.program !== "token-2022" && { creators: sanitized.creators ?? [] }),
+          ...(usesMintingEngine && { engine: mintingEngine.id }),
+        })
       }
 
-      updateStep("upload-images", "completed")
-      setMintingProgress(25)
-
-      // Step 3: Upload metadata
-      updateStep("upload-metadata", "active")
-      setCurrentStep("Uploading metadata to IPFS...")
-
-      let metadataUris: string[] = []
+      if (formData.mintType === "collection") {
+        if (!formData.images || formData.images.length === 0) throw new Error("Images are required for collection")
 
-      if (formData.mintType === "single") {
-        const metadata = {
+        // Journal the job before uploading anything so an interrupted run can be resumed
+        const job = await mintJournal.createJob({
+          network,
+          wallet: publicKey.toString(),
           name: sanitized.name,
           description: sanitized.description,
-          image: imageUris[0],
+          royalty: sanitized.royalty,
           attributes: sanitized.attributes,
-          properties: {
-            files: [{ uri: imageUris[0], type: formData.image!.type }],
-            category: "image",
-          },
-          seller_fee_basis_points: sanitized.royalty,
-          creators: [
-            {
-              address: publicKey.toString(),
-              verified: true,
-              share: 100,
-            },
-          ],
+          recipients: sanitized.recipients || [],
+          creators: sanitized.creators,
+          symbol: sanitized.symbol,
+          isMutable: sanitized.isMutable,
+          updateAuthority: sanitized.updateAuthority || undefined,
+          tokenStandard: sanitized.tokenStandard,
+          ruleSet: sanitized.ruleSet || undefined,
+          program: sanitized.program,
+          freezable: sanitized.freezable,
+          soulbound: sanitized.soulbound,
+          engine: usesMintingEngine ? mintingEngine.id : undefined,
+          collectionMint: sanitized.collection || undefined,
+          placeholderImage: (sanitized.unrevealed && sanitized.placeholderImage) || undefined,
+          files: formData.images,
+        })
+
+        try {
+          await runCollectionJob(job)
+        } finally {
+          await loadUnfinishedJobs()
         }
+      } else {
+        // Prints from an existing master edition reuse its artwork and metadata
+        const printsFromExistingMaster = formData.mintType === "editions" && !!sanitized.masterEdition
+        let imageUri: string | undefined
+        let metadataUri: string | undefined
+        let collectionMetadataUri: string | undefined
+
+        if (!printsFromExistingMaster) {
+          // Step 2: Upload image
+          updateStep("upload-images", "active")
+          setCurrentStep("Uploading images to IPFS...")
+
+          if (!formData.image) throw new Error("Image is required")
+          imageUri = await ipfsService.uploadFile(
+            formData.image,
+            `${sanitized.name.replace(/\s+/g, "_")}.${formData.image.name.split(".").pop()}`,
+          )
 
-        const metadataUri = await ipfsService.uploadJSON(metadata, "metadata.json")
-        metadataUris = [metadataUri]
-      } else if (formData.mintType === "collection") {
-        for (let i = 0; i < imageUris.length; i++) {
-          const metadata = {
-            name: `${sanitized.name} #${i + 1}`,
+          updateStep("upload-images", "completed")
+          setMintingProgress(25)
+
+          // Step 3: Upload metadata
+          updateStep("upload-metadata", "active")
+          setCurrentStep("Uploading metadata to IPFS...")
+
+          const metadata = buildMetadataJson({
+            name: sanitized.name,
+            symbol: sanitized.symbol,
             description: sanitized.description,
-            image: imageUris[i],
+            imageUri,
+            fileType: formData.image.type,
             attributes: sanitized.attributes,
-            properties: {
-              files: [{ uri: imageUris[i], type: formData.images![i].type }],
-              category: "image",
-            },
-            seller_fee_basis_points: sanitized.royalty,
-            creators: [
-              {
-                address: publicKey.toString(),
-                verified: true,
-                share: 100,
-              },
-            ],
+            royalty: sanitized.royalty,
+            creators: sanitized.creators,
+            wallet: publicKey.toString(),
+          })
+
+          metadataUri = await ipfsService.uploadJSON(metadata, "metadata.json")
+
+          // Compressed NFTs share one metadata file, and a new collection NFT gets the same artwork
+          if (formData.mintType === "compressed" && !sanitized.collection) {
+            setCurrentStep("Uploading collection metadata to IPFS...")
+            const { attributes, ...collectionMetadata } = metadata
+            collectionMetadataUri = await ipfsService.uploadJSON(collectionMetadata, "collection.json")
           }
-
-          const metadataUri = await ipfsService.uploadJSON(metadata, `metadata_${i + 1}.json`)
-          metadataUris.push(metadataUri)
-          setCurrentStep(`Uploading metadata ${i + 1} of ${imageUris.length} to IPFS...`)
         }
-      }
-
-      updateStep("upload-metadata", "completed")
-      setMintingProgress(37)
-
-      // Step 4: Estimate cost
-      updateStep("estimate-cost", "active")
-      setCurrentStep("Estimating minting cost...")
 
-      await loadEstimatedCost()
-
-      updateStep("estimate-cost", "completed")
-      setMintingProgress(50)
-
-      // Step 5: Setup UMI (do this first and wait for completion)
-      updateStep("setup-umi", "active")
-      setCurrentStep("Setting up Metaplex UMI...")
-
-      // Small delay to ensure UI updates
-      await new Promise((resolve) => setTimeout(resolve, 100))
-
-      updateStep("setup-umi", "completed")
-      setMintingProgress(62)
+        updateStep("upload-images", "completed")
+        updateStep("upload-metadata", "completed")
+        setMintingProgress(37)
+
+        // Step 4: Estimate cost
+        updateStep("estimate-cost", "active")
+        setCurrentStep("Estimating minting cost...")
+
+        await loadEstimatedCost()
+
+        updateStep("estimate-cost", "completed")
+        setMintingProgress(50)
+
+        // Step 5: Setup UMI (do this first and wait for completion)
+        updateStep("setup-umi", "active")
+        setCurrentStep("Setting up Metaplex UMI...")
+
+        // Small delay to ensure UI updates
+        await new Promise((resolve) => setTimeout(resolve, 100))
+
+        updateStep("setup-umi", "completed")
+        setMintingProgress(62)
+
+        // Step 6: Create NFTs (only start after UMI setup is complete)
+        updateStep("create-nfts", "active")
+        setCurrentStep("Creating NFTs...")
+
+        if (formData.mintType === "compressed") {
+          const result = await enhancedMetaplexService.mintCompressed({
+            collectionName: sanitized.name,
+            metadataUri: metadataUri!,
+            royalty: sanitized.royalty,
+            wallet: wallet.adapter,
+            network,
+            quantity: sanitized.compressedCount ?? 1,
+            recipients: sanitized.recipients || [],
+            creators: sanitized.creators,
+            symbol: sanitized.symbol || undefined,
+            isMutable: sanitized.isMutable,
+            updateAuthority: sanitized.updateAuthority || undefined,
+            collectionMint: sanitized.collection || undefined,
+            collectionMetadataUri,
+            merkleTree: sanitized.merkleTree || undefined,
+            concurrency,
+            priorityFee,
+            onProgress: (message, current, total, item) => {
+              if (item) {
+                setItemStatuses((prev) => ({ ...prev, [item.index]: item }))
+                if (item.state === "queued" || item.confirmation === "finalized") return
+              }
+              setCurrentStep(message)
+              if (current && total) {
+                setMintingProgress(62 + (current / total) * 25)
+              }
+              if (message.includes("Compressed minting complete")) {
+                updateStep("create-nfts", "completed")
+                setMintingProgress(87)
+                updateStep("confirm", "active")
+                setCurrentStep("Confirming transactions...")
+              }
+            },
+          })
 
-      // Step 6: Create NFTs (only start after UMI setup is complete)
-      updateStep("create-nfts", "active")
-      setCurrentStep("Creating NFTs...")
+          setBatchResult(result)
+        } else if (formData.mintType === "editions") {
+          const result = await enhancedMetaplexService.mintEditions({
+            name: sanitized.name,
+            description: sanitized.description,
+            imageUri,
+            metadataUri,
+            royalty: sanitized.royalty,
+            wallet: wallet.adapter,
+            network,
+            masterEditionMint: sanitized.masterEdition || undefined,
+            maxSupply: sanitized.maxSupply,
+            editionCount: sanitized.editionCount ?? 1,
+            recipients: sanitized.recipients || [],
+            creators: sanitized.creators,
+            symbol: sanitized.symbol || undefined,
+            isMutable: sanitized.isMutable,
+            updateAuthority: sanitized.updateAuthority || undefined,
+            tokenStandard: sanitized.tokenStandard,
+            ruleSet: sanitized.ruleSet || undefined,
+            concurrency,
+            priorityFee,
+            onProgress: (message, current, total, item) => {
+              if (item) {
+                setItemStatuses((prev) => ({ ...prev, [item.index]: item }))
+                if (item.state === "queued" || item.confirmation === "finalized") return
+              }
+              setCurrentStep(message)
+              if (current && total) {
+                setMintingProgress(62 + (current / total) * 25)
+              }
+              if (message.includes("Edition printing complete")) {
+                updateStep("create-nfts", "completed")
+                setMintingProgress(87)
+                updateStep("confirm", "active")
+                setCurrentStep("Confirming transactions...")
+              }
+            },
+          })
+
+          setBatchResult(result)
+        } else if (formData.program === "token-2022") {
+          const result = await token2022Service.mintNFT({
+            name: sanitized.name,
+            symbol: sanitized.symbol || undefined,
+            metadataUri: metadataUri!,
+            attributes: sanitized.attributes,
+            wallet: wallet.adapter,
+            network,
+            recipientAddress: sanitized.recipientAddress || undefined,
+            isMutable: sanitized.isMutable,
+            updateAuthority: sanitized.updateAuthority || undefined,
+            soulbound: sanitized.soulbound,
+            priorityFee,
+            onProgress: (message) => {
+              setCurrentStep(message)
+              if (message.includes("NFT created successfully")) {
+                updateStep("create-nfts", "completed")
+                setMintingProgress(87)
+                updateStep("confirm", "active")
+                setCurrentStep("Confirming transaction...")
+              }
+            },
+          })
 
-      if (formData.mintType === "single") {
-        const result = await enhancedMetaplexService.mintSingleNFT({
-          name: sanitized.name,
-          description: sanitized.description,
-          imageUri: imageUris[0],
-          metadataUri: metadataUris[0],
-          royalty: sanitized.royalty,
-          wallet: wallet.adapter,
-          network,
-          recipientAddress: sanitized.recipientAddress || undefined,
-          onProgress: (message) => {
-            setCurrentStep(message)
-            if (message.includes("NFT created successfully")) {
-              updateStep("create-nfts", "completed")
-              setMintingProgress(87)
-              updateStep("confirm", "active")
-              setCurrentStep("Confirming transaction...")
-            }
-          },
-        })
+          setMintResult(result)
+        } else {
+          const engine = usesMintingEngine ? mintingEngine : getMintingEngine()
+          const result = await engine.mintSingle({
+            name: sanitized.name,
+            description: sanitized.description,
+            imageUri: imageUri!,
+            metadataUri: metadataUri!,
+            royalty: sanitized.royalty,
+            wallet: wallet.adapter,
+            network,
+            recipientAddress: sanitized.recipientAddress || undefined,
+            creators: sanitized.creators,
+            symbol: sanitized.symbol || undefined,
+            isMutable: sanitized.isMutable,
+            updateAuthority: sanitized.updateAuthority || undefined,
+            tokenStandard: sanitized.tokenStandard,
+            ruleSet: sanitized.ruleSet || undefined,
+            program: sanitized.program,
+            freezable: sanitized.freezable,
+            soulbound: sanitized.soulbound,
+            priorityFee,
+            onProgress: (message) => {
+              setCurrentStep(message)
+              if (message.includes("NFT created successfully")) {
+                updateStep("create-nfts", "completed")
+                setMintingProgress(87)
+                updateStep("confirm", "active")
+                setCurrentStep("Confirming transaction...")
+              }
+            },
+          })
 
-        setMintResult(result)
-        updateStep("confirm", "completed")
-        setMintingProgress(100)
-      } else if (formData.mintType === "collection") {
-        const result = await enhancedMetaplexService.mintCollection({
-          collectionName: sanitized.name,
-          description: sanitized.description,
-          imageUris,
-          metadataUris,
-          royalty: sanitized.royalty,
-          wallet: wallet.adapter,
-          network,
-          recipients: sanitized.recipients,
-          onProgress: (message, current, total) => {
-            setCurrentStep(message)
-            if (current && total) {
-              const progressPercent = 62 + (current / total) * 25
-              setMintingProgress(progressPercent)
-            }
-            if (message.includes("Collection minting complete")) {
-              updateStep("create-nfts", "completed")
-              setMintingProgress(87)
-              updateStep("confirm", "active")
-              setCurrentStep("Confirming transactions...")
-            }
-          },
-        })
+          setMintResult(result)
+        }
 
-        setBatchResult(result)
         updateStep("confirm", "completed")
         setMintingProgress(100)
       }
@@ -397,44 +1054,165 @@ function NFTMinter() {
         description: `Your ${formData.mintType} has been created on ${getNetworkDisplayName(network)}`,
       })
     } catch (error) {
-      const errorMessage = getErrorMessage(error)
-      console.error("Minting error:", error)
+      handleMintingError(error)
+    } finally {
+      setIsLoading(false)
+      setCurrentStep("")
+    }
+  }
+
+  const handleResumeJob = async (job: MintJob) => {
+    if (!connected || !publicKey || !wallet) {
+      toast({
+        title: "Wallet Required",
+        description: "Please connect your wallet to continue",
+        variant: "destructive",
+      })
+      return
+    }
+
+    resetMintingState()
+    setFormData((prev) => ({ ...prev, mintType: "collection" }))
+
+    try {
+      // The job was validated when it was first started
+      updateStep("validate", "completed")
+      setMintingProgress(12)
+
+      await runCollectionJob(job)
+
+      const { minted, total } = getJobProgress((await mintJournal.getJob(job.id)) ?? job)
+      toast({
+        title: "🎉 Mint Job Resumed",
+        description: `${minted} of ${total} NFTs in "${job.name}" are now minted on ${getNetworkDisplayName(job.network)}`,
+      })
+    } catch (error) {
+      handleMintingError(error)
+    } finally {
+      setIsLoading(false)
+      setCurrentStep("")
+      await loadUnfinishedJobs()
+    }
+  }
 
-      // Update current step to error
-      const activeStep = mintingSteps.find((step) => step.status === "active")
-      if (activeStep) {
-        updateStep(activeStep.id, "error")
+  // Uploads the final art and metadata kept in the journal, then points every NFT at its final metadata
+  const handleRevealJob = async (job: MintJob) => {
+    if (!connected || !publicKey || !wallet) {
+      toast({
+        title: "Wallet Required",
+        description: "Please connect your wallet to continue",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setRevealingJobId(job.id)
+
+    try {
+      setCurrentStep("Uploading final images to IPFS...")
+      await uploadJobImages(job)
+      setCurrentStep("Uploading final metadata to IPFS...")
+      await uploadJobMetadata(job)
+
+      // Rows that already point at their final metadata come back unchanged, so a retried reveal only
+      // sends what's left
+      const rows = job.items.map((item) => ({
+        line: item.index + 1,
+        mintAddress: item.mintResult!.mintAddress,
+        uri: item.metadataUri!,
+      }))
+      const plan = await enhancedMetaplexService.planBulkUpdate(job.network, rows, publicKey.toString(), setCurrentStep)
+      const invalid = plan.filter((item) => item.state === "invalid")
+      if (invalid.length > 0) {
+        throw new Error(`${invalid.length} NFTs can't be revealed: ${invalid[0].error}`)
       }
 
+      const results = await enhancedMetaplexService.bulkUpdateMetadata({
+        items: plan,
+        wallet: wallet.adapter,
+        network: job.network,
+        concurrency,
+        priorityFee,
+        onProgress: (message) => setCurrentStep(message),
+      })
+
+      const remaining = results.filter((item) => item.state !== "updated" && item.state !== "unchanged").length
+      if (remaining === 0) {
+        await mintJournal.updateJob(job.id, { reveal: { ...job.reveal!, revealedAt: Date.now() } })
+        toast({
+          title: "🎉 Collection Revealed",
+          description: `All ${results.length} NFTs in "${job.name}" now show their final art`,
+        })
+      } else {
+        toast({
+          title: "Reveal Incomplete",
+          description: `${remaining} NFTs could not be revealed yet. Reveal again to retry them.`,
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("Reveal failed:", error)
       toast({
-        title: "Minting Failed",
-        description: errorMessage,
+        title: "Reveal Failed",
+        description: getErrorMessage(error),
         variant: "destructive",
       })
     } finally {
-      setIsLoading(false)
+      setRevealingJobId(null)
       setCurrentStep("")
+      await loadUnfinishedJobs()
+    }
+  }
+
+  const handleDiscardJob = async (job: MintJob) => {
+    try {
+      await mintJournal.deleteJob(job.id)
+      await loadUnfinishedJobs()
+    } catch (error) {
+      toast({
+        title: "Could not discard job",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      })
     }
   }
 
   const resetForm = () => {
     setFormData({
       name: "",
+      symbol: CONFIG.NFT.defaultSymbol,
       description: "",
       image: null,
       images: [],
+      unrevealed: false,
+      placeholderImage: null,
       attributes: [{ trait_type: "", value: "" }],
       royalty: 500,
       collection: "",
       mintType: "single",
       recipientAddress: "",
       recipients: [],
+      creators: [],
+      isMutable: true,
+      updateAuthority: "",
+      tokenStandard: "NonFungible",
+      ruleSet: "",
+      program: "token-metadata",
+      freezable: false,
+      soulbound: false,
+      masterEdition: "",
+      maxSupply: 10,
+      editionCount: 1,
+      merkleTree: "",
+      compressedCount: 100,
     })
     setImagePreview(null)
     setValidationErrors([])
     setMintResult(null)
     setBatchResult(null)
+    setVerifications([])
     setMintingProgress(0)
+    setItemStatuses({})
     setRecipientList("")
     setMintingSteps((prev) => prev.map((step) => ({ ...step, status: "pending" })))
   }
@@ -445,6 +1223,10 @@ function NFTMinter() {
         return <Zap className="w-4 h-4" />
       case "collection":
         return <Layers className="w-4 h-4" />
+      case "editions":
+        return <Printer className="w-4 h-4" />
+      case "compressed":
+        return <Boxes className="w-4 h-4" />
       default:
         return <ImageIcon className="w-4 h-4" />
     }
@@ -456,6 +1238,10 @@ function NFTMinter() {
         return "Mint a single unique NFT"
       case "collection":
         return "Mint multiple unique NFTs with different artwork"
+      case "editions":
+        return "Create a master edition and print numbered copies"
+      case "compressed":
+        return "Airdrop thousands of low-cost NFTs from a Merkle tree"
       default:
         return ""
     }
@@ -476,7 +1262,7 @@ function NFTMinter() {
 
         {/* Main Tabs */}
         <Tabs defaultValue="minter" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mb-6">
+          <TabsList className="grid w-full grid-cols-5 mb-6">
             <TabsTrigger value="minter" className="flex items-center gap-2">
               <Zap className="w-4 h-4" />
               NFT Minter
@@ -485,6 +1271,18 @@ function NFTMinter() {
               <Camera className="w-4 h-4" />
               Holder Snapshot
             </TabsTrigger>
+            <TabsTrigger value="edit" className="flex items-center gap-2">
+              <Pencil className="w-4 h-4" />
+              Edit NFT
+            </TabsTrigger>
+            <TabsTrigger value="transfer" className="flex items-center gap-2">
+              <Send className="w-4 h-4" />
+              Transfer
+            </TabsTrigger>
+            <TabsTrigger value="burn" className="flex items-center gap-2">
+              <Flame className="w-4 h-4" />
+              Burn
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="minter" className="space-y-6">
@@ -553,6 +1351,21 @@ function NFTMinter() {
                         {formData.mintType === "collection" && (
                           <span className="ml-2">for {formData.images?.length || 0} NFTs</span>
                         )}
+                        {formData.mintType === "editions" && (
+                          <span className="ml-2">for {formData.editionCount || 0} editions</span>
+                        )}
+                        {formData.mintType === "compressed" && (
+                          <span className="ml-2">
+                            for {formData.compressedCount || 0} compressed NFTs (~
+                            {(estimatedCost / (formData.compressedCount || 1) / 1e9).toFixed(6)} each)
+                          </span>
+                        )}
+                        {priorityFeeEstimate && priorityFeeEstimate.microLamports > 0 && (
+                          <span className="ml-2">
+                            incl. ~{(priorityFeeEstimate.lamportsPerMint / 1e9).toFixed(6)} priority fee per mint (
+                            {priorityFeeEstimate.microLamports.toLocaleString()} micro-lamports/CU)
+                          </span>
+                        )}
                         {network.includes("testnet") || network.includes("devnet") ? (
                           <Badge variant="secondary" className="ml-2">
                             Testnet - Free
@@ -618,6 +1431,39 @@ function NFTMinter() {
                       </div>
                     ))}
                   </div>
+                  {Object.keys(itemStatuses).length > 0 && (
+                    <div className="mt-4">
+                      <p className="text-sm font-medium mb-2">NFT Status</p>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.values(itemStatuses).map((item) => (
+                          <div
+                            key={item.index}
+                            title={`NFT #${item.index + 1}: ${item.state}${item.confirmation ? `, transaction ${CONFIRMATION_LABELS[item.confirmation]}` : ""}${item.error ? ` (${item.error})` : ""}`}
+                            className={`w-6 h-6 rounded text-[10px] flex items-center justify-center ${
+                              item.confirmation === "expired" || item.confirmation === "failed"
+                                ? "ring-2 ring-offset-1 ring-red-300 "
+                                : ""
+                            }${
+                              item.state === "succeeded"
+                                ? "bg-green-500 text-white"
+                                : item.state === "failed"
+                                  ? "bg-red-500 text-white"
+                                  : item.state === "running"
+                                    ? "bg-blue-500 text-white animate-pulse"
+                                    : item.state === "retrying"
+                                      ? "bg-orange-400 text-white animate-pulse"
+                                      : "bg-gray-200 text-gray-600"
+                            }`}
+                          >
+                            {item.index + 1}
+                          </div>
+                        ))}
+                      </div>
+                      {confirmationSummary && (
+                        <p className="text-xs text-muted-foreground mt-2">Transactions: {confirmationSummary}</p>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -632,14 +1478,21 @@ function NFTMinter() {
                   <CardDescription className="text-green-700">
                     {mintResult && "Your NFT is now live with full Metaplex metadata!"}
                     {batchResult &&
-                      `Successfully minted ${batchResult.totalMinted} NFTs${batchResult.failed > 0 ? ` (${batchResult.failed} failed)` : ""}!`}
+                      `Successfully minted ${batchResult.totalMinted} NFTs${batchResult.failed > 0 ? ` (${batchResult.failed} failed)` : ""}${batchResult.recovered > 0 ? ` (${batchResult.recovered} recovered)` : ""}!`}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {mintResult && (
                     <div className="grid md:grid-cols-2 gap-4">
                       <div>
-                        <Label className="text-green-700 font-medium">NFT Mint Address</Label>
+                        <Label className="text-green-700 font-medium">
+                          NFT Mint Address
+                          {mintResult.soulbound && (
+                            <Badge variant="outline" className="ml-2">
+                              Soulbound
+                            </Badge>
+                          )}
+                        </Label>
                         <div className="flex items-center gap-2 mt-1">
                           <code className="text-sm bg-green-100 px-2 py-1 rounded flex-1 break-all">
                             {mintResult.mintAddress}
@@ -670,21 +1523,23 @@ function NFTMinter() {
                         </div>
                       </div>
 
-                      <div>
-                        <Label className="text-green-700 font-medium">Metadata Address</Label>
-                        <div className="flex items-center gap-2 mt-1">
-                          <code className="text-sm bg-green-100 px-2 py-1 rounded flex-1 break-all">
-                            {mintResult.metadataAddress}
-                          </code>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => copyToClipboard(mintResult.metadataAddress, "Metadata address")}
-                          >
-                            <Copy className="w-4 h-4" />
-                          </Button>
+                      {mintResult.metadataAddress && (
+                        <div>
+                          <Label className="text-green-700 font-medium">Metadata Address</Label>
+                          <div className="flex items-center gap-2 mt-1">
+                            <code className="text-sm bg-green-100 px-2 py-1 rounded flex-1 break-all">
+                              {mintResult.metadataAddress}
+                            </code>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => copyToClipboard(mintResult.metadataAddress, "Metadata address")}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
-                      </div>
+                      )}
 
                       <div>
                         <Label className="text-green-700 font-medium">Transaction</Label>
@@ -705,6 +1560,81 @@ function NFTMinter() {
 
                   {batchResult && (
                     <div className="space-y-4">
+                      {batchResult.masterEdition && (
+                        <div>
+                          <Label className="text-green-700 font-medium">Master Edition</Label>
+                          <div className="flex items-center gap-2 mt-1">
+                            <code className="flex-1 p-2 bg-green-100 rounded text-xs sm:text-sm font-mono break-all">
+                              {batchResult.masterEdition}
+                            </code>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => copyToClipboard(batchResult.masterEdition!, "Master edition address")}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => window.open(getTokenUrl(batchResult.masterEdition!, network), "_blank")}
+                            >
+                              <ExternalLink className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          {batchResult.editionSupply && (
+                            <p className="text-sm text-green-700 mt-2">
+                              {batchResult.editionSupply.printed} editions printed
+                              {batchResult.editionSupply.maxSupply !== null &&
+                                ` of ${batchResult.editionSupply.maxSupply} (${batchResult.editionSupply.maxSupply - batchResult.editionSupply.printed} remaining)`}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {batchResult.merkleTree && (
+                        <div>
+                          <Label className="text-green-700 font-medium">Merkle Tree</Label>
+                          <div className="flex items-center gap-2 mt-1">
+                            <code className="text-sm bg-green-100 px-2 py-1 rounded flex-1 break-all">
+                              {batchResult.merkleTree}
+                            </code>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => copyToClipboard(batchResult.merkleTree!, "Merkle tree address")}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
+                      {batchResult.collectionMint && (
+                        <div>
+                          <Label className="text-green-700 font-medium">Collection Address</Label>
+                          <div className="flex items-center gap-2 mt-1">
+                            <code className="text-sm bg-green-100 px-2 py-1 rounded flex-1 break-all">
+                              {batchResult.collectionMint}
+                            </code>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => copyToClipboard(batchResult.collectionMint!, "Collection address")}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => window.open(getTokenUrl(batchResult.collectionMint!, network), "_blank")}
+                            >
+                              <ExternalLink className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+
                       <div className="grid grid-cols-3 gap-4 text-center">
                         <div className="bg-green-100 p-3 rounded">
                           <p className="text-2xl font-bold text-green-800">{batchResult.totalMinted}</p>
@@ -720,20 +1650,72 @@ function NFTMinter() {
                         </div>
                       </div>
 
+                      {batchResult.recovered > 0 && (
+                        <Alert>
+                          <Info className="h-4 w-4" />
+                          <AlertDescription>
+                            {batchResult.recovered} NFT{batchResult.recovered === 1 ? "" : "s"} landed on-chain after
+                            the confirmation timed out and {batchResult.recovered === 1 ? "was" : "were"} recovered
+                            instead of being minted again.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+
+                      {confirmationSummary && (
+                        <p className="text-sm text-green-700">Final transaction states: {confirmationSummary}</p>
+                      )}
+
                       <div className="max-h-64 overflow-y-auto">
-                        <Label className="text-green-700 font-medium">Minted NFTs</Label>
+                        <div className="flex items-center justify-between">
+                          <Label className="text-green-700 font-medium">Minted NFTs</Label>
+                          {/* Bulk updates only cover Token Metadata NFTs */}
+                          {formData.program === "token-metadata" && formData.mintType !== "compressed" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                downloadCsv(
+                                  generateBulkUpdateTemplate(batchResult.results),
+                                  `${batchResult.collectionMint ?? "minted"}_update.csv`,
+                                )
+                              }
+                            >
+                              <Download className="w-3 h-3 mr-1" />
+                              Update CSV
+                            </Button>
+                          )}
+                        </div>
                         <div className="space-y-2 mt-2">
                           {batchResult.results.map((result, index) => (
                             <div key={index} className="flex items-center justify-between bg-green-100 p-2 rounded">
                               <div className="flex-1">
-                                <p className="text-sm font-medium">NFT #{index + 1}</p>
+                                <p className="text-sm font-medium">
+                                  {result.editionNumber
+                                    ? `Edition #${result.editionNumber}`
+                                    : `NFT #${(result.index ?? index) + 1}`}
+                                  {result.leafIndex !== undefined && (
+                                    <span className="ml-2 text-xs text-gray-500">Leaf {result.leafIndex}</span>
+                                  )}
+                                  {result.recovered && (
+                                    <Badge variant="outline" className="ml-2">
+                                      Recovered
+                                    </Badge>
+                                  )}
+                                  {result.soulbound && (
+                                    <Badge variant="outline" className="ml-2">
+                                      Soulbound
+                                    </Badge>
+                                  )}
+                                </p>
                                 <p className="text-xs text-gray-600 truncate">{result.mintAddress}</p>
                               </div>
                               <div className="flex gap-1">
                                 <Button
                                   variant="outline"
                                   size="sm"
-                                  onClick={() => copyToClipboard(result.mintAddress, "Mint address")}
+                                  onClick={() =>
+                                    copyToClipboard(result.mintAddress, result.assetId ? "Asset ID" : "Mint address")
+                                  }
                                 >
                                   <Copy className="w-3 h-3" />
                                 </Button>
@@ -769,6 +1751,108 @@ function NFTMinter() {
               </Card>
             )}
 
+            {(mintResult || batchResult) && (verifications.length > 0 || verifyStep) && (
+              <VerificationReport verifications={verifications} currentStep={verifyStep} onRerun={runVerification} />
+            )}
+
+            {/* Unfinished Mint Jobs */}
+            {connected && unfinishedJobs.length > 0 && !isLoading && (
+              <Card className="mb-8 border-yellow-200 bg-yellow-50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-yellow-800">
+                    <RotateCcw className="w-5 h-5" />
+                    Unfinished Mint Jobs
+                  </CardTitle>
+                  <CardDescription>
+                    These collection mints were interrupted. Resume to mint the remaining NFTs without re-uploading or
+                    re-minting anything that already finished.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {unfinishedJobs.map((job) => {
+                    const { minted, total } = getJobProgress(job)
+                    return (
+                      <div
+                        key={job.id}
+                        className="flex items-center justify-between gap-4 p-3 bg-white rounded-lg border"
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{job.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            Started {new Date(job.createdAt).toLocaleString()} • {minted} of {total} minted
+                          </p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                          <Button size="sm" onClick={() => handleResumeJob(job)}>
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Resume job
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleDiscardJob(job)}>
+                            <Trash2 className="w-4 h-4 mr-1" />
+                            Discard
+                          </Button>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Unrevealed Drops */}
+            {connected && unrevealedJobs.length > 0 && !isLoading && (
+              <Card className="mb-8 border-purple-200 bg-purple-50">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-purple-800">
+                    <Eye className="w-5 h-5" />
+                    Unrevealed Drops
+                  </CardTitle>
+                  <CardDescription>
+                    These collections were minted with a placeholder. Reveal uploads the final art and updates every NFT
+                    to its final metadata.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {unrevealedJobs.map((job) => (
+                    <div
+                      key={job.id}
+                      className="flex items-center justify-between gap-4 p-3 bg-white rounded-lg border"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{job.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {job.items.length} NFTs minted {new Date(job.updatedAt).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-gray-500 font-mono truncate">
+                          Provenance: {job.reveal?.provenanceHash}
+                        </p>
+                        {revealingJobId === job.id && currentStep && (
+                          <p className="text-xs text-purple-700 mt-1">{currentStep}</p>
+                        )}
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => copyToClipboard(job.reveal?.provenanceHash ?? "", "Provenance hash")}
+                        >
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" onClick={() => handleRevealJob(job)} disabled={revealingJobId !== null}>
+                          {revealingJobId === job.id ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          ) : (
+                            <Eye className="w-4 h-4 mr-1" />
+                          )}
+                          Reveal
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Main Form */}
             <div className="grid gap-4 sm:gap-6 lg:grid-cols-3">
               {/* Mint Type Selection */}
@@ -778,8 +1862,8 @@ function NFTMinter() {
                   <CardDescription>Choose your minting strategy</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
-                    {["single", "collection"].map((type) => (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+                    {["single", "collection", "editions", "compressed"].map((type) => (
                       <div
                         key={type}
                         className={`border-2 rounded-lg p-4 cursor-pointer transition-colors ${
@@ -797,6 +1881,86 @@ function NFTMinter() {
                       </div>
                     ))}
                   </div>
+
+                  <div className="grid gap-3 sm:grid-cols-2 mt-4">
+                    <div>
+                      <Label htmlFor="program">NFT Program</Label>
+                      <Select
+                        value={formData.program}
+                        onValueChange={(value: NftProgram) =>
+                          setFormData((prev) => ({
+                            ...prev,
+                            program: value,
+                            // Only Token Metadata has token standards and rule sets
+                            ...(value !== "token-metadata" && { tokenStandard: "NonFungible", ruleSet: "" }),
+                            freezable: value === "core" ? prev.freezable : false,
+                            soulbound: value === "token-metadata" ? false : prev.soulbound,
+                          }))
+                        }
+                      >
+                        <SelectTrigger id="program">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="token-metadata">Token Metadata</SelectItem>
+                          <SelectItem value="core">Metaplex Core</SelectItem>
+                          <SelectItem value="token-2022">Token-2022</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {formData.program === "core" &&
+                          "One account per NFT with plugins for royalties and freezing. Single and collection mints only."}
+                        {formData.program === "token-2022" &&
+                          "Metadata and attributes live in the mint through the metadata pointer extension. Single mints only; royalties are off-chain."}
+                        {formData.program === "token-metadata" && "SPL token with metadata and edition accounts"}
+                      </p>
+                    </div>
+
+                    {formData.program === "token-metadata" && (
+                      <div>
+                        <Label htmlFor="tokenStandard">Token Standard</Label>
+                        <Select
+                          value={formData.tokenStandard}
+                          onValueChange={(value: NftTokenStandard) =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              tokenStandard: value,
+                              ruleSet: value === "ProgrammableNonFungible" ? prev.ruleSet : "",
+                            }))
+                          }
+                        >
+                          <SelectTrigger id="tokenStandard">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="NonFungible">Standard NFT</SelectItem>
+                            <SelectItem value="ProgrammableNonFungible">Programmable NFT (pNFT)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formData.tokenStandard === "ProgrammableNonFungible"
+                            ? "Royalties are enforced on transfers. Each holder also pays rent for a token record."
+                            : "Classic Metaplex NFT"}
+                        </p>
+                      </div>
+                    )}
+
+                    {formData.tokenStandard === "ProgrammableNonFungible" && (
+                      <div>
+                        <Label htmlFor="ruleSet">Rule Set (optional)</Label>
+                        <Input
+                          id="ruleSet"
+                          value={formData.ruleSet}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, ruleSet: e.target.value }))}
+                          placeholder="Authorization rule set address"
+                          className="font-mono text-sm"
+                        />
+                        {formData.ruleSet && !validateSolanaAddress(formData.ruleSet) && (
+                          <p className="text-xs text-red-500 mt-1">Invalid rule set address format</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 </CardContent>
               </Card>
 
@@ -811,7 +1975,7 @@ function NFTMinter() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="pt-0">
-                  {formData.mintType === "single" ? (
+                  {formData.mintType !== "collection" ? (
                     <div className="space-y-4">
                       <DragDropUpload
                         onFilesSelected={(files) => {
@@ -870,6 +2034,19 @@ function NFTMinter() {
                     </div>
                   </div>
 
+                  <div>
+                    <Label htmlFor="symbol">
+                      Symbol <span className="text-xs text-gray-500">(max {CONFIG.NFT.maxSymbolLength} bytes)</span>
+                    </Label>
+                    <Input
+                      id="symbol"
+                      value={formData.symbol}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, symbol: e.target.value }))}
+                      placeholder={CONFIG.NFT.defaultSymbol}
+                      className="w-40"
+                    />
+                  </div>
+
                   <div>
                     <Label htmlFor="description">
                       Description{" "}
@@ -910,6 +2087,322 @@ function NFTMinter() {
                     </div>
                   </div>
 
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor="immutable">Immutable</Label>
+                      <p className="text-xs text-gray-500">Metadata can never be changed after minting</p>
+                    </div>
+                    <Switch
+                      id="immutable"
+                      checked={!formData.isMutable}
+                      onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, isMutable: !checked }))}
+                    />
+                  </div>
+
+                  {formData.program === "core" && (
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="freezable">Freezable</Label>
+                        <p className="text-xs text-gray-500">The update authority can freeze assets in place later</p>
+                      </div>
+                      <Switch
+                        id="freezable"
+                        checked={formData.freezable}
+                        onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, freezable: checked }))}
+                      />
+                    </div>
+                  )}
+
+                  {formData.program !== "token-metadata" && (
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="soulbound">Soulbound</Label>
+                        <p className="text-xs text-gray-500">
+                          {formData.program === "core"
+                            ? "Assets are frozen in the recipient's wallet; only the update authority can thaw them"
+                            : "Uses the non-transferable extension, so the NFT can never leave the recipient's wallet"}
+                        </p>
+                      </div>
+                      <Switch
+                        id="soulbound"
+                        checked={formData.soulbound}
+                        onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, soulbound: checked }))}
+                      />
+                    </div>
+                  )}
+
+                  <div>
+                    <Label htmlFor="updateAuthority">Update Authority (optional)</Label>
+                    <Input
+                      id="updateAuthority"
+                      value={formData.updateAuthority}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, updateAuthority: e.target.value }))}
+                      placeholder="Defaults to the connected wallet"
+                      className="font-mono text-sm"
+                    />
+                    {formData.updateAuthority && !validateSolanaAddress(formData.updateAuthority) ? (
+                      <p className="text-xs text-red-500 mt-1">Invalid update authority address format</p>
+                    ) : (
+                      (formData.mintType === "collection" || formData.mintType === "compressed") &&
+                      formData.updateAuthority && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          The collection is transferred to this authority after every NFT is minted
+                        </p>
+                      )
+                    )}
+                  </div>
+
+                  {(formData.mintType === "collection" || formData.mintType === "compressed") && (
+                    <div>
+                      <Label htmlFor="collection">Existing Collection Address (optional)</Label>
+                      <Input
+                        id="collection"
+                        value={formData.collection}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, collection: e.target.value }))}
+                        placeholder="Leave empty to create a new collection"
+                      />
+                      {formData.collection && !validateSolanaAddress(formData.collection) && (
+                        <p className="text-xs text-red-500 mt-1">Invalid collection address format</p>
+                      )}
+                    </div>
+                  )}
+
+                  {formData.mintType === "collection" && formData.program === "token-metadata" && (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <Label htmlFor="unrevealed">Unrevealed Drop</Label>
+                          <p className="text-xs text-gray-500">
+                            Mint with a placeholder and reveal the final art later
+                          </p>
+                        </div>
+                        <Switch
+                          id="unrevealed"
+                          checked={formData.unrevealed}
+                          onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, unrevealed: checked }))}
+                        />
+                      </div>
+                      {formData.unrevealed && (
+                        <div>
+                          <Label>Placeholder Image *</Label>
+                          <DragDropUpload
+                            onFilesSelected={(files) =>
+                              files.length > 0 && setFormData((prev) => ({ ...prev, placeholderImage: files[0] }))
+                            }
+                            multiple={false}
+                            maxFiles={1}
+                          />
+                          {formData.placeholderImage && (
+                            <p className="text-xs text-gray-500 mt-1">{formData.placeholderImage.name}</p>
+                          )}
+                          <p className="text-xs text-gray-500 mt-1">
+                            A provenance hash of the final art is published in the collection metadata at mint time
+                          </p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {formData.mintType === "editions" && (
+                    <div className="space-y-3">
+                      <div>
+                        <Label htmlFor="masterEdition">Existing Master Edition (optional)</Label>
+                        <Input
+                          id="masterEdition"
+                          value={formData.masterEdition}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, masterEdition: e.target.value }))}
+                          placeholder="Leave empty to create a new master edition"
+                          className="font-mono text-sm"
+                        />
+                        {formData.masterEdition && !validateSolanaAddress(formData.masterEdition) && (
+                          <p className="text-xs text-red-500 mt-1">Invalid master edition address format</p>
+                        )}
+                      </div>
+                      <div className="flex gap-4">
+                        {!formData.masterEdition?.trim() && (
+                          <div>
+                            <Label htmlFor="maxSupply">Max Supply</Label>
+                            <Input
+                              id="maxSupply"
+                              type="number"
+                              min="1"
+                              value={formData.maxSupply}
+                              onChange={(e) =>
+                                setFormData((prev) => ({
+                                  ...prev,
+                                  maxSupply: Math.max(1, Number.parseInt(e.target.value) || 1),
+                                }))
+                              }
+                              className="w-24"
+                            />
+                          </div>
+                        )}
+                        <div>
+                          <Label htmlFor="editionCount">Editions to Print</Label>
+                          <Input
+                            id="editionCount"
+                            type="number"
+                            min="1"
+                            value={formData.editionCount}
+                            onChange={(e) =>
+                              setFormData((prev) => ({
+                                ...prev,
+                                editionCount: Math.max(1, Number.parseInt(e.target.value) || 1),
+                              }))
+                            }
+                            className="w-24"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {formData.mintType === "compressed" && (
+                    <div className="space-y-3">
+                      <div>
+                        <Label htmlFor="merkleTree">Existing Merkle Tree (optional)</Label>
+                        <Input
+                          id="merkleTree"
+                          value={formData.merkleTree}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, merkleTree: e.target.value }))}
+                          placeholder="Leave empty to create a tree sized to the quantity"
+                          className="font-mono text-sm"
+                        />
+                        {formData.merkleTree && !validateSolanaAddress(formData.merkleTree) && (
+                          <p className="text-xs text-red-500 mt-1">Invalid Merkle tree address format</p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="compressedCount">Compressed NFTs to Mint</Label>
+                        <Input
+                          id="compressedCount"
+                          type="number"
+                          min="1"
+                          value={formData.compressedCount}
+                          onChange={(e) =>
+                            setFormData((prev) => ({
+                              ...prev,
+                              compressedCount: Math.max(1, Number.parseInt(e.target.value) || 1),
+                            }))
+                          }
+                          className="w-32"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {formData.mintType !== "single" && (
+                    <div>
+                      <Label htmlFor="concurrency">Parallel Mints</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="concurrency"
+                          type="number"
+                          min="1"
+                          max={CONFIG.MINTING.maxConcurrency}
+                          value={concurrency}
+                          onChange={(e) =>
+                            setConcurrency(
+                              Math.min(
+                                CONFIG.MINTING.maxConcurrency,
+                                Math.max(1, Number.parseInt(e.target.value) || 1),
+                              ),
+                            )
+                          }
+                          className="w-24"
+                        />
+                        <span className="text-sm text-gray-500">NFTs at a time</span>
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <Label htmlFor="priorityFee">Priority Fee</Label>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={priorityFee.type}
+                        onValueChange={(value: PriorityFeeStrategy["type"]) =>
+                          setPriorityFee(
+                            value === "fixed"
+                              ? { type: "fixed", microLamports: CONFIG.PRIORITY_FEES.defaultMicroLamports }
+                              : { type: value },
+                          )
+                        }
+                      >
+                        <SelectTrigger id="priorityFee" className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="fixed">Fixed</SelectItem>
+                          <SelectItem value="auto">Automatic</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {priorityFee.type === "fixed" && (
+                        <>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={priorityFee.microLamports}
+                            onChange={(e) =>
+                              setPriorityFee({
+                                type: "fixed",
+                                microLamports: Math.max(0, Number.parseInt(e.target.value) || 0),
+                              })
+                            }
+                            className="w-32"
+                          />
+                          <span className="text-sm text-gray-500">micro-lamports per compute unit</span>
+                        </>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Helps transactions land when the network is congested. Compute units are sized by simulating each
+                      mint.
+                    </p>
+                  </div>
+
+                  <Collapsible>
+                    <CollapsibleTrigger asChild>
+                      <Button variant="ghost" size="sm" className="px-0">
+                        <Settings2 className="w-4 h-4 mr-2" />
+                        Advanced Settings
+                        <ChevronDown className="w-4 h-4 ml-1" />
+                      </Button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent className="space-y-2 pt-2">
+                      <Label htmlFor="mintingEngine">Minting Engine on {getNetworkDisplayName(network)}</Label>
+                      <Select value={mintingEngine.id} onValueChange={(value: MintingEngineId) => selectEngine(value)}>
+                        <SelectTrigger id="mintingEngine" className="w-64">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MINTING_ENGINES.map((engine) => (
+                            <SelectItem key={engine.id} value={engine.id}>
+                              {engine.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">{mintingEngine.description}</p>
+                      <p className="text-xs text-gray-500">
+                        Used for Token Metadata single and collection mints. Switch engines here if one stops working on
+                        this network; other programs and mint types always use the default.
+                      </p>
+                      {!mintingEngine.capabilities.customOptions && (
+                        <Alert>
+                          <Info className="h-4 w-4" />
+                          <AlertDescription>
+                            This engine mints one NFT at a time to the connected wallet
+                            {mintingEngine.capabilities.onChainMetadata ? "" : " without on-chain metadata"}.
+                            Collections, recipients, creators, update authorities, programmable NFTs and priority fees
+                            aren't supported.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                    </CollapsibleContent>
+                  </Collapsible>
+
                   <Separator />
 
                   <DraggableAttributes
@@ -917,6 +2410,15 @@ function NFTMinter() {
                     onAttributesChange={(attributes) => setFormData((prev) => ({ ...prev, attributes }))}
                     maxAttributes={CONFIG.NFT.maxAttributes}
                   />
+
+                  <Separator />
+
+                  <CreatorShares
+                    creators={formData.creators || []}
+                    onCreatorsChange={(creators) => setFormData((prev) => ({ ...prev, creators }))}
+                    maxCreators={CONFIG.NFT.maxCreators}
+                    walletAddress={publicKey?.toString()}
+                  />
                 </CardContent>
               </Card>
 
@@ -971,6 +2473,14 @@ function NFTMinter() {
                         />
                         <p className="text-xs text-gray-500 mt-1">
                           {formData.recipients?.length || 0} valid addresses
+                          {formData.mintType === "editions" &&
+                            formData.recipients &&
+                            formData.recipients.length < (formData.editionCount || 0) &&
+                            ` (remaining ${(formData.editionCount || 0) - formData.recipients.length} will go to your wallet)`}
+                          {formData.mintType === "compressed" &&
+                            formData.recipients &&
+                            formData.recipients.length < (formData.compressedCount || 0) &&
+                            ` (remaining ${(formData.compressedCount || 0) - formData.recipients.length} will go to your wallet)`}
                           {formData.mintType === "collection" &&
                             formData.images &&
                             formData.recipients &&
@@ -987,38 +2497,71 @@ function NFTMinter() {
             {/* Mint Button */}
             <Card className="mt-6">
               <CardContent className="p-6">
-                <Button
-                  onClick={handleMint}
-                  disabled={
-                    !connected ||
-                    isLoading ||
-                    (formData.mintType !== "collection" && !formData.image) ||
-                    (formData.mintType === "collection" && (!formData.images || formData.images.length === 0)) ||
-                    !formData.name.trim()
-                  }
-                  className={`w-full text-sm sm:text-base ${isEclipseNetwork(network) ? "bg-purple-600 hover:bg-purple-700" : "bg-blue-600 hover:bg-blue-700"}`}
-                  size="lg"
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Minting {formData.mintType} on {getNetworkDisplayName(network)}...
-                    </>
-                  ) : (
-                    <>
-                      {getMintTypeIcon(formData.mintType)}
-                      <span className="ml-2">
-                        Mint {formData.mintType === "single" ? "NFT" : `${formData.images?.length || 0} NFT Collection`}{" "}
-                        on {getNetworkDisplayName(network)}
-                      </span>
-                      {estimatedCost && (
-                        <span className="ml-2 text-sm opacity-75">
-                          (~{(estimatedCost / 1e9).toFixed(4)} {isEclipseNetwork(network) ? "ETH" : "SOL"})
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Button
+                    onClick={handleMint}
+                    disabled={
+                      !connected ||
+                      isLoading ||
+                      !!dryRunStep ||
+                      ((formData.mintType === "single" || formData.mintType === "compressed") && !formData.image) ||
+                      (formData.mintType === "editions" && !formData.image && !formData.masterEdition?.trim()) ||
+                      (formData.mintType === "collection" && (!formData.images || formData.images.length === 0)) ||
+                      !formData.name.trim()
+                    }
+                    className={`flex-1 text-sm sm:text-base ${isEclipseNetwork(network) ? "bg-purple-600 hover:bg-purple-700" : "bg-blue-600 hover:bg-blue-700"}`}
+                    size="lg"
+                  >
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Minting {formData.mintType} on {getNetworkDisplayName(network)}...
+                      </>
+                    ) : (
+                      <>
+                        {getMintTypeIcon(formData.mintType)}
+                        <span className="ml-2">
+                          {formData.mintType === "single" && "Mint NFT"}
+                          {formData.mintType === "collection" && `Mint ${formData.images?.length || 0} NFT Collection`}
+                          {formData.mintType === "editions" && `Print ${formData.editionCount || 0} Editions`}
+                          {formData.mintType === "compressed" &&
+                            `Mint ${formData.compressedCount || 0} Compressed NFTs`}{" "}
+                          on {getNetworkDisplayName(network)}
                         </span>
-                      )}
-                    </>
-                  )}
-                </Button>
+                        {estimatedCost && (
+                          <span className="ml-2 text-sm opacity-75">
+                            (~{(estimatedCost / 1e9).toFixed(4)} {isEclipseNetwork(network) ? "ETH" : "SOL"})
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="lg"
+                    onClick={handleDryRun}
+                    disabled={
+                      !connected ||
+                      isLoading ||
+                      !!dryRunStep ||
+                      !!dryRunUnavailableReason ||
+                      (formData.mintType === "single" && !formData.image) ||
+                      (formData.mintType === "collection" && (!formData.images || formData.images.length === 0)) ||
+                      !formData.name.trim()
+                    }
+                  >
+                    {dryRunStep ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <FlaskConical className="w-4 h-4 mr-2" />
+                    )}
+                    Dry run
+                  </Button>
+                </div>
+                {dryRunStep && <p className="text-sm text-gray-500 text-center mt-2">{dryRunStep}</p>}
+                {connected && dryRunUnavailableReason && (
+                  <p className="text-sm text-gray-500 text-center mt-2">{dryRunUnavailableReason}</p>
+                )}
                 {!connected && (
                   <p className="text-sm text-gray-500 text-center mt-2">Connect your wallet to mint NFTs</p>
                 )}
@@ -1029,11 +2572,28 @@ function NFTMinter() {
                 )}
               </CardContent>
             </Card>
+
+            {dryRunReport && (
+              <DryRunReport report={dryRunReport} network={network} onDismiss={() => setDryRunReport(null)} />
+            )}
           </TabsContent>
 
           <TabsContent value="snapshot" className="space-y-6">
             <SnapshotTool />
           </TabsContent>
+
+          <TabsContent value="edit" className="space-y-6">
+            <EditNftTool network={network} />
+            <BulkUpdateTool network={network} />
+          </TabsContent>
+
+          <TabsContent value="transfer" className="space-y-6">
+            <TransferTool network={network} />
+          </TabsContent>
+
+          <TabsContent value="burn" className="space-y-6">
+            <BurnTool network={network} />
+          </TabsContent>
         </Tabs>
 
         {/* Footer */}
@@ -0,0 +1,227 @@
+"use client"
+
+import { useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, Download, FileSpreadsheet, Loader2 } from "lucide-react"
+import { toast } from "@/hooks/use-toast"
+import type { NetworkType } from "@/lib/config"
+import { enhancedMetaplexService } from "@/lib/enhanced-metaplex-service"
+import {
+  BULK_UPDATE_HEADER,
+  generateBulkUpdateReport,
+  parseBulkUpdateCsv,
+  type BulkUpdateItem,
+  type BulkUpdateState,
+} from "@/lib/bulk-update"
+import { downloadCsv } from "@/lib/csv"
+
+const STATE_BADGES: Record<BulkUpdateState, { label: string; className: string }> = {
+  ready: { label: "Ready", className: "bg-blue-100 text-blue-800" },
+  unchanged: { label: "No change", className: "bg-gray-100 text-gray-700" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-800" },
+  updating: { label: "Updating", className: "bg-yellow-100 text-yellow-800" },
+  updated: { label: "Updated", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-700" },
+}
+
+export function BulkUpdateTool({ network }: { network: NetworkType }) {
+  const { publicKey, wallet } = useWallet()
+  const [fileName, setFileName] = useState("")
+  const [parseErrors, setParseErrors] = useState<string[]>([])
+  const [items, setItems] = useState<BulkUpdateItem[]>([])
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [isUpdating, setIsUpdating] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [currentStep, setCurrentStep] = useState("")
+
+  const readyCount = items.filter((item) => item.state === "ready").length
+  const countOf = (state: BulkUpdateState) => items.filter((item) => item.state === state).length
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    if (!publicKey) {
+      toast({
+        title: "Wallet Required",
+        description: "Connect the update authority wallet first",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setFileName(file.name)
+    setItems([])
+    setProgress(0)
+
+    const { rows, errors } = parseBulkUpdateCsv(await file.text())
+    setParseErrors(errors)
+    if (errors.length > 0) return
+
+    // Compare every row against on-chain state so the diff can be reviewed first
+    setIsPlanning(true)
+    try {
+      setItems(await enhancedMetaplexService.planBulkUpdate(network, rows, publicKey.toString(), setCurrentStep))
+    } catch (error) {
+      console.error("Failed to check CSV rows:", error)
+      toast({
+        title: "Preview Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsPlanning(false)
+      setCurrentStep("")
+    }
+  }
+
+  const handleUpdate = async () => {
+    if (!wallet || readyCount === 0) return
+
+    setIsUpdating(true)
+    setProgress(0)
+
+    try {
+      const finalItems = await enhancedMetaplexService.bulkUpdateMetadata({
+        items,
+        wallet: wallet.adapter,
+        network,
+        onItemUpdate: (updated) =>
+          setItems((prev) => prev.map((item) => (item.row.mintAddress === updated.row.mintAddress ? updated : item))),
+        onProgress: (message, completed, total) => {
+          setCurrentStep(message)
+          setProgress(total > 0 ? (completed / total) * 100 : 100)
+        },
+      })
+
+      setItems(finalItems)
+      const updated = finalItems.filter((item) => item.state === "updated").length
+      toast({
+        title: "Bulk Update Complete",
+        description: `${updated} of ${readyCount} NFTs updated`,
+        variant: updated === readyCount ? "default" : "destructive",
+      })
+    } catch (error) {
+      console.error("Bulk update failed:", error)
+      toast({
+        title: "Bulk Update Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUpdating(false)
+      setCurrentStep("")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5" />
+          Bulk Update from CSV
+        </CardTitle>
+        <CardDescription>
+          Columns: <span className="font-mono text-xs">{BULK_UPDATE_HEADER}</span>. Leave a field empty to keep its
+          current value.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2 items-center">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            disabled={isPlanning || isUpdating}
+            onChange={(e) => {
+              handleFile(e.target.files?.[0])
+              e.target.value = ""
+            }}
+          />
+          {(isPlanning || isUpdating) && <Loader2 className="w-4 h-4 animate-spin" />}
+        </div>
+
+        {currentStep && <p className="text-sm text-gray-600">{currentStep}</p>}
+
+        {parseErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <p className="font-medium">{fileName} has problems that need fixing first:</p>
+              <ul className="list-disc list-inside space-y-1 mt-1">
+                {parseErrors.slice(0, 20).map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+              {parseErrors.length > 20 && <p className="mt-1">...and {parseErrors.length - 20} more</p>}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {items.length > 0 && (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {(Object.keys(STATE_BADGES) as BulkUpdateState[])
+                .filter((state) => countOf(state) > 0)
+                .map((state) => (
+                  <Badge key={state} variant="outline" className={STATE_BADGES[state].className}>
+                    {STATE_BADGES[state].label}: {countOf(state)}
+                  </Badge>
+                ))}
+            </div>
+
+            {isUpdating && <Progress value={progress} />}
+
+            <div className="max-h-96 overflow-y-auto border rounded-lg divide-y">
+              {items.map((item) => (
+                <div key={item.row.mintAddress} className="p-2 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-xs truncate">{item.row.mintAddress}</span>
+                    <Badge variant="outline" className={STATE_BADGES[item.state].className}>
+                      {STATE_BADGES[item.state].label}
+                    </Badge>
+                  </div>
+                  {item.changes.map((change) => (
+                    <p key={change.field} className="text-xs text-gray-600 break-all">
+                      <span className="font-medium">{change.field}:</span>{" "}
+                      <span className="line-through text-red-600">{change.from}</span> →{" "}
+                      <span className="text-green-700">{change.to}</span>
+                    </p>
+                  ))}
+                  {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleUpdate} disabled={isUpdating || isPlanning || readyCount === 0} className="flex-1">
+                {isUpdating ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Updating...
+                  </>
+                ) : (
+                  `Update ${readyCount} NFT${readyCount === 1 ? "" : "s"}`
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                disabled={isUpdating}
+                onClick={() =>
+                  downloadCsv(generateBulkUpdateReport(items), `${fileName.replace(/\.csv$/i, "")}_report.csv`)
+                }
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download Report
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,287 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { AlertCircle, Download, ExternalLink, Flame, Loader2 } from "lucide-react"
+import { OwnedNftPicker } from "@/components/owned-nft-picker"
+import { toast } from "@/hooks/use-toast"
+import { getTransactionUrl, isEclipseNetwork, type NetworkType } from "@/lib/config"
+import { costModel, type RentTable } from "@/lib/cost-model"
+import { downloadCsv, escapeCsv } from "@/lib/csv"
+import { enhancedMetaplexService, type BurnItem, type BurnState, type OwnedNft } from "@/lib/enhanced-metaplex-service"
+
+const STATE_BADGES: Record<BurnState, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-gray-100 text-gray-700" },
+  burning: { label: "Burning", className: "bg-yellow-100 text-yellow-800" },
+  burned: { label: "Burned", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-700" },
+}
+
+function generateBurnReport(items: BurnItem[]): string {
+  const lines = ["mint_address,name,status,signature,reclaimed_lamports,error"]
+  for (const item of items) {
+    lines.push(
+      [item.mintAddress, item.name, item.state, item.signature, item.reclaimedLamports, item.error]
+        .map(escapeCsv)
+        .join(","),
+    )
+  }
+  return lines.join("\n")
+}
+
+export function BurnTool({ network }: { network: NetworkType }) {
+  const { connected, publicKey, wallet } = useWallet()
+  const [nfts, setNfts] = useState<OwnedNft[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [rent, setRent] = useState<RentTable | null>(null)
+  const [items, setItems] = useState<BurnItem[]>([])
+  const [isLoadingNfts, setIsLoadingNfts] = useState(false)
+  const [isBurning, setIsBurning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [currentStep, setCurrentStep] = useState("")
+
+  const currency = isEclipseNetwork(network) ? "ETH" : "SOL"
+  const selectedNfts = nfts.filter((nft) => selected.includes(nft.mintAddress))
+  const estimatedRefund = rent ? selectedNfts.reduce((sum, nft) => sum + costModel.getBurnRefund(rent, nft), 0) : 0
+  const reclaimed = items.reduce((sum, item) => sum + (item.reclaimedLamports ?? 0), 0)
+
+  useEffect(() => {
+    loadNfts()
+    costModel.getRentTable(network).then(setRent)
+  }, [network, connected, publicKey])
+
+  const loadNfts = async () => {
+    setSelected([])
+    if (!connected || !publicKey) {
+      setNfts([])
+      return
+    }
+
+    setIsLoadingNfts(true)
+    try {
+      setNfts(await enhancedMetaplexService.fetchOwnedNfts(network, publicKey.toString()))
+    } catch (error) {
+      console.error("Failed to load NFTs:", error)
+      toast({
+        title: "Could not load NFTs",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoadingNfts(false)
+    }
+  }
+
+  const handleBurn = async () => {
+    if (!wallet || selectedNfts.length === 0) return
+
+    const queued: BurnItem[] = selectedNfts.map((nft) => ({
+      mintAddress: nft.mintAddress,
+      name: nft.name,
+      state: "queued",
+    }))
+
+    setItems(queued)
+    setIsBurning(true)
+    setProgress(0)
+
+    try {
+      const results = await enhancedMetaplexService.burnNfts({
+        items: queued,
+        wallet: wallet.adapter,
+        network,
+        onItemUpdate: (updated) =>
+          setItems((prev) => prev.map((item) => (item.mintAddress === updated.mintAddress ? updated : item))),
+        onProgress: (message, completed, total) => {
+          setCurrentStep(message)
+          setProgress(total > 0 ? (completed / total) * 100 : 100)
+        },
+      })
+
+      setItems(results)
+      const burned = results.filter((item) => item.state === "burned")
+      const total = burned.reduce((sum, item) => sum + (item.reclaimedLamports ?? 0), 0)
+      toast({
+        title: "Burn Complete",
+        description: `${burned.length} of ${results.length} NFTs burned, ${(total / LAMPORTS_PER_SOL).toFixed(6)} ${currency} reclaimed`,
+        variant: burned.length === results.length ? "default" : "destructive",
+      })
+    } catch (error) {
+      console.error("Burn failed:", error)
+      toast({
+        title: "Burn Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBurning(false)
+      setCurrentStep("")
+      await loadNfts()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Burn NFTs</h2>
+        <p className="text-gray-600">Clean up test mints or unwanted NFTs and reclaim their rent</p>
+      </div>
+
+      {!connected && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Connect your wallet to see the NFTs it holds.</AlertDescription>
+        </Alert>
+      )}
+
+      {connected && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <OwnedNftPicker
+            nfts={nfts}
+            selected={selected}
+            onSelectedChange={setSelected}
+            isLoading={isLoadingNfts}
+            onRefresh={loadNfts}
+            disabled={isBurning}
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Flame className="w-5 h-5" />
+                Burn Selected
+              </CardTitle>
+              <CardDescription>
+                Burns the token and closes its token account, metadata and edition. The mint account itself can't be
+                closed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-center">
+                <div className="bg-gray-50 p-3 rounded-lg">
+                  <p className="text-2xl font-bold">{selectedNfts.length}</p>
+                  <p className="text-sm text-gray-600">NFTs selected</p>
+                </div>
+                <div className="bg-green-50 p-3 rounded-lg">
+                  <p className="text-2xl font-bold text-green-800">{(estimatedRefund / LAMPORTS_PER_SOL).toFixed(4)}</p>
+                  <p className="text-sm text-green-600">{currency} to reclaim</p>
+                </div>
+              </div>
+
+              {network.endsWith("mainnet") && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>You are on mainnet. Burned NFTs are gone for good.</AlertDescription>
+                </Alert>
+              )}
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={selectedNfts.length === 0 || isBurning} className="w-full">
+                    {isBurning ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Burning...
+                      </>
+                    ) : (
+                      <>
+                        <Flame className="w-4 h-4 mr-2" />
+                        Burn {selectedNfts.length} NFT{selectedNfts.length === 1 ? "" : "s"}
+                      </>
+                    )}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      Burn {selectedNfts.length} NFT{selectedNfts.length === 1 ? "" : "s"}?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This permanently destroys the selected NFTs and returns about{" "}
+                      {(estimatedRefund / LAMPORTS_PER_SOL).toFixed(6)} {currency} of rent to your wallet. It can't be
+                      undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleBurn}>Burn</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Burn Status</CardTitle>
+            <CardDescription>
+              {currentStep || `${(reclaimed / LAMPORTS_PER_SOL).toFixed(6)} ${currency} reclaimed`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isBurning && <Progress value={progress} />}
+            <div className="max-h-96 overflow-y-auto border rounded-lg divide-y">
+              {items.map((item) => (
+                <div key={item.mintAddress} className="flex items-center justify-between gap-2 p-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{item.name || item.mintAddress}</p>
+                    {item.reclaimedLamports !== undefined && (
+                      <p className="text-xs text-green-700">
+                        +{(item.reclaimedLamports / LAMPORTS_PER_SOL).toFixed(6)} {currency}
+                      </p>
+                    )}
+                    {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Badge variant="outline" className={STATE_BADGES[item.state].className}>
+                      {STATE_BADGES[item.state].label}
+                    </Badge>
+                    {item.signature && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => window.open(getTransactionUrl(item.signature!, network), "_blank")}
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              disabled={isBurning}
+              onClick={() => downloadCsv(generateBurnReport(items), `burn_report_${Date.now()}.csv`)}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Report
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, Download, FlaskConical, X } from "lucide-react"
+import { isEclipseNetwork, type NetworkType } from "@/lib/config"
+import { downloadCsv, escapeCsv } from "@/lib/csv"
+import type { DryRunReport as DryRunReportData } from "@/lib/enhanced-metaplex-service"
+
+function generateDryRunCsv(report: DryRunReportData): string {
+  const lines = ["transaction,status,compute_units,fee_lamports,rent_lamports,error,note"]
+  for (const item of report.items) {
+    lines.push(
+      [
+        item.label,
+        item.error ? "failed" : "ok",
+        item.computeUnits,
+        item.feeLamports,
+        item.rentLamports,
+        item.error,
+        item.note,
+      ]
+        .map(escapeCsv)
+        .join(","),
+    )
+  }
+  return lines.join("\n")
+}
+
+interface DryRunReportProps {
+  report: DryRunReportData
+  network: NetworkType
+  onDismiss: () => void
+}
+
+// Per-transaction results of a simulated mint
+export function DryRunReport({ report, network, onDismiss }: DryRunReportProps) {
+  const currency = isEclipseNetwork(network) ? "ETH" : "SOL"
+  const formatAmount = (lamports: number) => `${(lamports / LAMPORTS_PER_SOL).toFixed(6)} ${currency}`
+  const totalCost = report.totalFees + report.totalRent
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" />
+            Dry Run Report
+          </span>
+          <Button variant="ghost" size="sm" onClick={onDismiss}>
+            <X className="w-4 h-4" />
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Simulated against the RPC with placeholder metadata. Nothing was uploaded, signed or sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <p className="text-2xl font-bold">{report.items.length - report.failed}</p>
+            <p className="text-sm text-gray-600">of {report.items.length} would succeed</p>
+          </div>
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <p className="text-lg font-bold">{formatAmount(report.totalFees)}</p>
+            <p className="text-sm text-gray-600">Fees</p>
+          </div>
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <p className="text-lg font-bold">{formatAmount(report.totalRent)}</p>
+            <p className="text-sm text-gray-600">Rent</p>
+          </div>
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <p className="text-lg font-bold">{formatAmount(report.balance)}</p>
+            <p className="text-sm text-gray-600">Wallet balance</p>
+          </div>
+        </div>
+
+        {report.balance < totalCost && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              The mint would cost about {formatAmount(totalCost)}, more than this wallet holds.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="max-h-96 overflow-y-auto border rounded-lg divide-y">
+          {report.items.map((item, index) => (
+            <div key={index} className="flex items-start justify-between gap-2 p-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{item.label}</p>
+                <p className="text-xs text-gray-500">
+                  {item.computeUnits !== undefined && `${item.computeUnits.toLocaleString()} CU • `}
+                  Fee {formatAmount(item.feeLamports)} • Rent {formatAmount(item.rentLamports)}
+                </p>
+                {item.note && <p className="text-xs text-gray-500">{item.note}</p>}
+                {item.error && <p className="text-xs text-red-600 break-words">{item.error}</p>}
+              </div>
+              <Badge
+                variant="outline"
+                className={item.error ? "bg-red-100 text-red-800 shrink-0" : "bg-green-100 text-green-800 shrink-0"}
+              >
+                {item.error ? "Failed" : "OK"}
+              </Badge>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={() => downloadCsv(generateDryRunCsv(report), `dry_run_${Date.now()}.csv`)}>
+          <Download className="w-4 h-4 mr-2" />
+          Download Report
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,372 @@
+"use client"
+
+import { useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Separator } from "@/components/ui/separator"
+import { DraggableAttributes } from "@/components/ui/draggable-attributes"
+import { DragDropUpload } from "@/components/ui/drag-drop-upload"
+import { AlertCircle, CheckCircle, ExternalLink, Loader2, Pencil, Search } from "lucide-react"
+import { toast } from "@/hooks/use-toast"
+import { CONFIG, type NetworkType } from "@/lib/config"
+import { validateNFTMetadata, sanitizeMetadata, validateSolanaAddress } from "@/lib/validation"
+import { ipfsService } from "@/lib/ipfs-service"
+import { enhancedMetaplexService, type EditableNft } from "@/lib/enhanced-metaplex-service"
+
+interface EditForm {
+  name: string
+  symbol: string
+  description: string
+  royalty: number // Basis points, same as the mint form
+  attributes: Array<{ trait_type: string; value: string }>
+  image: File | null
+}
+
+function toEditForm(nft: EditableNft): EditForm {
+  return {
+    name: nft.json?.name || nft.name,
+    symbol: nft.symbol,
+    description: typeof nft.json?.description === "string" ? nft.json.description : "",
+    royalty: nft.royalty,
+    attributes: Array.isArray(nft.json?.attributes)
+      ? nft.json!.attributes.map((attr: { trait_type?: unknown; value?: unknown }) => ({
+          trait_type: String(attr.trait_type ?? ""),
+          value: String(attr.value ?? ""),
+        }))
+      : [],
+    image: null,
+  }
+}
+
+export function EditNftTool({ network }: { network: NetworkType }) {
+  const { publicKey, wallet } = useWallet()
+  const [mintAddress, setMintAddress] = useState("")
+  const [nft, setNft] = useState<EditableNft | null>(null)
+  const [form, setForm] = useState<EditForm | null>(null)
+  const [imagePreview, setImagePreview] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [currentStep, setCurrentStep] = useState("")
+  const [validationErrors, setValidationErrors] = useState<string[]>([])
+  const [explorerUrl, setExplorerUrl] = useState<string | null>(null)
+
+  const walletAddress = publicKey?.toString()
+  const canEdit = !!nft && nft.isMutable && nft.updateAuthority === walletAddress
+
+  const handleLoad = async () => {
+    if (!validateSolanaAddress(mintAddress.trim())) {
+      toast({ title: "Invalid Address", description: "Please enter a valid mint address", variant: "destructive" })
+      return
+    }
+
+    setIsLoading(true)
+    setNft(null)
+    setForm(null)
+    setImagePreview(null)
+    setValidationErrors([])
+    setExplorerUrl(null)
+
+    try {
+      const loaded = await enhancedMetaplexService.fetchEditableNft(network, mintAddress.trim())
+      setNft(loaded)
+      setForm(toEditForm(loaded))
+      if (!loaded.json) {
+        toast({
+          title: "Off-chain Metadata Unavailable",
+          description: "Only the on-chain fields could be loaded; saving will write a fresh metadata JSON",
+        })
+      }
+    } catch (error) {
+      console.error("Failed to load NFT:", error)
+      toast({
+        title: "Load Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!nft || !form || !wallet) return
+
+    const existingImageUri = typeof nft.json?.image === "string" ? nft.json.image : undefined
+    const formData = sanitizeMetadata({
+      name: form.name,
+      symbol: form.symbol,
+      description: form.description,
+      image: form.image,
+      existingImageUri,
+      attributes: form.attributes,
+      royalty: form.royalty,
+      mintType: "single",
+    })
+
+    const validation = validateNFTMetadata(formData)
+    if (!validation.isValid) {
+      setValidationErrors(validation.errors)
+      return
+    }
+
+    setValidationErrors([])
+    setIsSaving(true)
+    setExplorerUrl(null)
+
+    try {
+      let imageUri = existingImageUri!
+      let fileType = nft.json?.properties?.files?.[0]?.type
+      if (formData.image) {
+        setCurrentStep("Uploading new image to IPFS...")
+        imageUri = await ipfsService.uploadFile(formData.image)
+        fileType = formData.image.type
+      }
+
+      // Keep any fields we don't edit (external_url, animation_url, creators...) as they were
+      setCurrentStep("Uploading metadata to IPFS...")
+      const attributes = formData.attributes.filter((attr) => attr.trait_type.trim() && attr.value.trim())
+      const metadata = {
+        ...(nft.json ?? {}),
+        name: formData.name,
+        symbol: formData.symbol || CONFIG.NFT.defaultSymbol,
+        description: formData.description,
+        image: imageUri,
+        attributes,
+        properties: {
+          ...(nft.json?.properties ?? {}),
+          files: [{ uri: imageUri, type: fileType || "image/png" }],
+          category: "image",
+        },
+        seller_fee_basis_points: formData.royalty,
+      }
+      const metadataUri = await ipfsService.uploadJSON(metadata, "metadata.json")
+
+      const result = await enhancedMetaplexService.updateNftMetadata({
+        mintAddress: nft.mintAddress,
+        name: formData.name,
+        symbol: formData.symbol || CONFIG.NFT.defaultSymbol,
+        metadataUri,
+        royalty: formData.royalty,
+        wallet: wallet.adapter,
+        network,
+        onProgress: setCurrentStep,
+      })
+
+      setExplorerUrl(result.explorerUrl)
+      setNft({
+        ...nft,
+        name: formData.name,
+        symbol: formData.symbol || CONFIG.NFT.defaultSymbol,
+        uri: metadataUri,
+        royalty: formData.royalty,
+        json: metadata,
+      })
+      setForm((prev) => (prev ? { ...prev, image: null } : prev))
+      toast({ title: "NFT Updated", description: "The new metadata is live on-chain" })
+    } catch (error) {
+      console.error("NFT update failed:", error)
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+      setCurrentStep("")
+    }
+  }
+
+  const currentImage = imagePreview || (typeof nft?.json?.image === "string" ? nft.json.image : null)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Edit NFT</h2>
+        <p className="text-gray-600">Update the metadata of an NFT you are the update authority for</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Search className="w-5 h-5" />
+            Load NFT
+          </CardTitle>
+          <CardDescription>Enter the mint address of a Token Metadata NFT</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              value={mintAddress}
+              onChange={(e) => setMintAddress(e.target.value)}
+              placeholder="Enter NFT mint address..."
+              className="font-mono text-sm"
+            />
+            <Button onClick={handleLoad} disabled={isLoading || !mintAddress.trim()}>
+              {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load"}
+            </Button>
+          </div>
+
+          {nft && !nft.isMutable && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>This NFT is immutable and its metadata can no longer be changed.</AlertDescription>
+            </Alert>
+          )}
+
+          {nft && nft.isMutable && nft.updateAuthority !== walletAddress && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Only the update authority can edit this NFT:{" "}
+                <span className="font-mono text-xs break-all">{nft.updateAuthority}</span>
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {nft && form && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Pencil className="w-5 h-5" />
+              Metadata
+            </CardTitle>
+            <CardDescription className="break-all">
+              Current URI: <span className="font-mono text-xs">{nft.uri}</span>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Image</Label>
+                {currentImage && (
+                  <img
+                    src={currentImage}
+                    alt="NFT Preview"
+                    className="max-w-full h-48 object-contain mx-auto rounded-lg border"
+                  />
+                )}
+                <DragDropUpload
+                  onFilesSelected={(files) => {
+                    if (files.length > 0) {
+                      setForm((prev) => (prev ? { ...prev, image: files[0] } : prev))
+                      const reader = new FileReader()
+                      reader.onload = (e) => setImagePreview(e.target?.result as string)
+                      reader.readAsDataURL(files[0])
+                    }
+                  }}
+                  multiple={false}
+                  maxFiles={1}
+                />
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="edit-name">Name *</Label>
+                  <Input
+                    id="edit-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    maxLength={CONFIG.NFT.maxNameLength}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="edit-symbol">Symbol</Label>
+                  <Input
+                    id="edit-symbol"
+                    value={form.symbol}
+                    onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+                    maxLength={CONFIG.NFT.maxSymbolLength}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="edit-description">Description</Label>
+                  <Textarea
+                    id="edit-description"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    maxLength={CONFIG.NFT.maxDescriptionLength}
+                    rows={3}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="edit-royalty">Royalty Percentage</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="edit-royalty"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      value={form.royalty / 100}
+                      onChange={(e) =>
+                        setForm({ ...form, royalty: Math.round(Number.parseFloat(e.target.value) * 100) })
+                      }
+                      className="w-24"
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <Separator />
+
+            <DraggableAttributes
+              attributes={form.attributes}
+              onAttributesChange={(attributes) => setForm((prev) => (prev ? { ...prev, attributes } : prev))}
+              maxAttributes={CONFIG.NFT.maxAttributes}
+            />
+
+            {validationErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc list-inside space-y-1">
+                    {validationErrors.map((error) => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {explorerUrl && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-2">
+                  Metadata updated.
+                  <Button variant="outline" size="sm" onClick={() => window.open(explorerUrl, "_blank")}>
+                    <ExternalLink className="w-4 h-4 mr-1" />
+                    View Transaction
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={handleSave} disabled={!canEdit || isSaving} className="w-full">
+              {isSaving ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {currentStep || "Saving..."}
+                </>
+              ) : (
+                "Save Changes"
+              )}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
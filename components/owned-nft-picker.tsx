@@ -0,0 +1,97 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Loader2, RefreshCw } from "lucide-react"
+import type { OwnedNft } from "@/lib/enhanced-metaplex-service"
+
+interface OwnedNftPickerProps {
+  nfts: OwnedNft[]
+  selected: string[]
+  onSelectedChange: (selected: string[]) => void
+  isLoading: boolean
+  onRefresh: () => void
+  disabled?: boolean
+  // Returns why an NFT can't be picked, or null when it can
+  getUnavailableReason?: (nft: OwnedNft) => string | null
+}
+
+// Checkbox list of the NFTs the connected wallet holds
+export function OwnedNftPicker({
+  nfts,
+  selected,
+  onSelectedChange,
+  isLoading,
+  onRefresh,
+  disabled = false,
+  getUnavailableReason = () => null,
+}: OwnedNftPickerProps) {
+  const available = nfts.filter((nft) => !getUnavailableReason(nft))
+
+  const toggleNft = (mintAddress: string, checked: boolean) => {
+    onSelectedChange(checked ? [...selected, mintAddress] : selected.filter((address) => address !== mintAddress))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span>Your NFTs</span>
+          <Button variant="outline" size="sm" onClick={onRefresh} disabled={isLoading || disabled}>
+            <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Token Metadata NFTs held by this wallet • {selected.length} of {nfts.length} selected
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {available.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="select-all"
+              checked={selected.length === available.length}
+              disabled={disabled}
+              onCheckedChange={(checked) => onSelectedChange(checked ? available.map((nft) => nft.mintAddress) : [])}
+            />
+            <Label htmlFor="select-all">Select all</Label>
+          </div>
+        )}
+        <div className="max-h-96 overflow-y-auto border rounded-lg divide-y">
+          {isLoading && (
+            <div className="p-4 flex items-center justify-center text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Loading NFTs...
+            </div>
+          )}
+          {!isLoading && nfts.length === 0 && (
+            <p className="p-4 text-sm text-gray-500 text-center">No NFTs found in this wallet</p>
+          )}
+          {!isLoading &&
+            nfts.map((nft) => {
+              const unavailableReason = getUnavailableReason(nft)
+              return (
+                <label
+                  key={nft.mintAddress}
+                  className={`flex items-center gap-3 p-2 ${unavailableReason ? "opacity-50" : "cursor-pointer"}`}
+                >
+                  <Checkbox
+                    checked={selected.includes(nft.mintAddress)}
+                    disabled={disabled || !!unavailableReason}
+                    onCheckedChange={(checked) => toggleNft(nft.mintAddress, checked === true)}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{nft.name || "Unnamed NFT"}</p>
+                    <p className="text-xs text-gray-500 font-mono truncate">{nft.mintAddress}</p>
+                    {unavailableReason && <p className="text-xs text-gray-500">{unavailableReason}</p>}
+                  </div>
+                </label>
+              )
+            })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useWallet } from "@solana/wallet-adapter-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, Download, ExternalLink, Loader2, Send } from "lucide-react"
+import { OwnedNftPicker } from "@/components/owned-nft-picker"
+import { toast } from "@/hooks/use-toast"
+import { getTransactionUrl, type NetworkType } from "@/lib/config"
+import { parseRecipientList } from "@/lib/validation"
+import { downloadCsv, escapeCsv } from "@/lib/csv"
+import {
+  enhancedMetaplexService,
+  type OwnedNft,
+  type TransferItem,
+  type TransferState,
+} from "@/lib/enhanced-metaplex-service"
+
+const STATE_BADGES: Record<TransferState, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "bg-gray-100 text-gray-700" },
+  transferring: { label: "Sending", className: "bg-yellow-100 text-yellow-800" },
+  transferred: { label: "Sent", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-700" },
+}
+
+function generateReceipt(items: TransferItem[], network: NetworkType): string {
+  const lines = ["mint_address,name,recipient,status,signature,explorer_url,error"]
+  for (const item of items) {
+    lines.push(
+      [
+        item.mintAddress,
+        item.name,
+        item.recipient,
+        item.state,
+        item.signature,
+        item.signature ? getTransactionUrl(item.signature, network) : "",
+        item.error,
+      ]
+        .map(escapeCsv)
+        .join(","),
+    )
+  }
+  return lines.join("\n")
+}
+
+export function TransferTool({ network }: { network: NetworkType }) {
+  const { connected, publicKey, wallet } = useWallet()
+  const [nfts, setNfts] = useState<OwnedNft[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [recipientList, setRecipientList] = useState("")
+  const [items, setItems] = useState<TransferItem[]>([])
+  const [isLoadingNfts, setIsLoadingNfts] = useState(false)
+  const [isTransferring, setIsTransferring] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [currentStep, setCurrentStep] = useState("")
+
+  const { valid: recipients, invalid: invalidRecipients } = parseRecipientList(recipientList)
+  const selectedNfts = nfts.filter((nft) => selected.includes(nft.mintAddress))
+
+  // A single recipient receives every selected NFT, otherwise NFTs and recipients are paired in order
+  const mappingError =
+    selectedNfts.length === 0
+      ? "Select the NFTs to transfer"
+      : recipients.length === 0
+        ? "Add at least one recipient"
+        : recipients.length !== 1 && recipients.length !== selectedNfts.length
+          ? `${selectedNfts.length} NFTs selected but ${recipients.length} recipients listed; use one recipient or one per NFT`
+          : null
+  const recipientFor = (index: number) => (recipients.length === 1 ? recipients[0] : recipients[index])
+
+  useEffect(() => {
+    loadNfts()
+  }, [network, connected, publicKey])
+
+  const loadNfts = async () => {
+    setSelected([])
+    if (!connected || !publicKey) {
+      setNfts([])
+      return
+    }
+
+    setIsLoadingNfts(true)
+    try {
+      setNfts(await enhancedMetaplexService.fetchOwnedNfts(network, publicKey.toString()))
+    } catch (error) {
+      console.error("Failed to load NFTs:", error)
+      toast({
+        title: "Could not load NFTs",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoadingNfts(false)
+    }
+  }
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return
+    const text = await file.text()
+    setRecipientList((prev) => (prev.trim() ? `${prev.trim()}\n${text}` : text))
+  }
+
+  const handleTransfer = async () => {
+    if (!wallet || mappingError) return
+
+    const queued: TransferItem[] = selectedNfts.map((nft, index) => ({
+      mintAddress: nft.mintAddress,
+      name: nft.name,
+      recipient: recipientFor(index),
+      state: "queued",
+    }))
+
+    setItems(queued)
+    setIsTransferring(true)
+    setProgress(0)
+
+    try {
+      const results = await enhancedMetaplexService.transferNfts({
+        items: queued,
+        wallet: wallet.adapter,
+        network,
+        onItemUpdate: (updated) =>
+          setItems((prev) => prev.map((item) => (item.mintAddress === updated.mintAddress ? updated : item))),
+        onProgress: (message, completed, total) => {
+          setCurrentStep(message)
+          setProgress(total > 0 ? (completed / total) * 100 : 100)
+        },
+      })
+
+      setItems(results)
+      const sent = results.filter((item) => item.state === "transferred").length
+      toast({
+        title: "Transfers Complete",
+        description: `${sent} of ${results.length} NFTs transferred`,
+        variant: sent === results.length ? "default" : "destructive",
+      })
+    } catch (error) {
+      console.error("Bulk transfer failed:", error)
+      toast({
+        title: "Transfer Failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsTransferring(false)
+      setCurrentStep("")
+      await loadNfts()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Transfer NFTs</h2>
+        <p className="text-gray-600">Airdrop NFTs this wallet already holds to a list of recipients</p>
+      </div>
+
+      {!connected && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Connect your wallet to see the NFTs it holds.</AlertDescription>
+        </Alert>
+      )}
+
+      {connected && (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <OwnedNftPicker
+            nfts={nfts}
+            selected={selected}
+            onSelectedChange={setSelected}
+            isLoading={isLoadingNfts}
+            onRefresh={loadNfts}
+            disabled={isTransferring}
+          />
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recipients</CardTitle>
+              <CardDescription>
+                One address per line, or import a CSV with addresses in the first column
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea
+                value={recipientList}
+                onChange={(e) => setRecipientList(e.target.value)}
+                placeholder="Enter wallet addresses (one per line)..."
+                rows={8}
+                className="font-mono text-sm"
+              />
+              <Input
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0])
+                  e.target.value = ""
+                }}
+              />
+              <p className="text-xs text-gray-500">
+                {recipients.length} valid recipient{recipients.length === 1 ? "" : "s"}
+                {invalidRecipients.length > 0 &&
+                  ` • ${invalidRecipients.length} invalid (will be skipped): ${invalidRecipients.slice(0, 3).join(", ")}`}
+              </p>
+
+              {mappingError && selectedNfts.length > 0 && recipients.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{mappingError}</AlertDescription>
+                </Alert>
+              )}
+
+              {!mappingError && (
+                <div className="border rounded-lg p-2 space-y-1 max-h-40 overflow-y-auto">
+                  {selectedNfts.map((nft, index) => (
+                    <p key={nft.mintAddress} className="text-xs truncate">
+                      <span className="font-medium">{nft.name || nft.mintAddress}</span> →{" "}
+                      <span className="font-mono text-gray-600">{recipientFor(index)}</span>
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <Button onClick={handleTransfer} disabled={!!mappingError || isTransferring} className="w-full">
+                {isTransferring ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Transferring...
+                  </>
+                ) : (
+                  <>
+                    <Send className="w-4 h-4 mr-2" />
+                    Transfer {selectedNfts.length} NFT{selectedNfts.length === 1 ? "" : "s"}
+                  </>
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Transfer Status</CardTitle>
+            {currentStep && <CardDescription>{currentStep}</CardDescription>}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isTransferring && <Progress value={progress} />}
+            <div className="max-h-96 overflow-y-auto border rounded-lg divide-y">
+              {items.map((item) => (
+                <div key={item.mintAddress} className="flex items-center justify-between gap-2 p-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{item.name || item.mintAddress}</p>
+                    <p className="text-xs text-gray-500 font-mono truncate">→ {item.recipient}</p>
+                    {item.error && <p className="text-xs text-red-600">{item.error}</p>}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Badge variant="outline" className={STATE_BADGES[item.state].className}>
+                      {STATE_BADGES[item.state].label}
+                    </Badge>
+                    {item.signature && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => window.open(getTransactionUrl(item.signature!, network), "_blank")}
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <Button
+              variant="outline"
+              disabled={isTransferring}
+              onClick={() => downloadCsv(generateReceipt(items, network), `transfer_receipt_${Date.now()}.csv`)}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Receipt
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { X } from "lucide-react"
+import { validateSolanaAddress, type CreatorShare } from "@/lib/validation"
+
+interface CreatorSharesProps {
+  creators: CreatorShare[]
+  onCreatorsChange: (creators: CreatorShare[]) => void
+  maxCreators: number
+  walletAddress?: string
+}
+
+export function CreatorShares({ creators, onCreatorsChange, maxCreators, walletAddress }: CreatorSharesProps) {
+  const totalShare = creators.reduce((sum, creator) => sum + creator.share, 0)
+
+  const updateCreator = (index: number, field: keyof CreatorShare, value: string) => {
+    const newCreators = creators.map((creator, i) =>
+      i === index
+        ? { ...creator, [field]: field === "share" ? Math.max(0, Number.parseInt(value) || 0) : value }
+        : creator,
+    )
+    onCreatorsChange(newCreators)
+  }
+
+  const removeCreator = (index: number) => {
+    onCreatorsChange(creators.filter((_, i) => i !== index))
+  }
+
+  const addCreator = () => {
+    if (creators.length >= maxCreators) return
+
+    // The first split starts from the connected wallet holding the full share
+    if (creators.length === 0 && walletAddress) {
+      onCreatorsChange([
+        { address: walletAddress, share: 100 },
+        { address: "", share: 0 },
+      ])
+      return
+    }
+
+    onCreatorsChange([...creators, { address: "", share: 0 }])
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-medium">
+            Creators <span className="text-xs text-gray-500">(max {maxCreators})</span>
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {creators.length === 0
+              ? "The connected wallet receives 100% of royalties"
+              : "Royalty shares must add up to 100%. Creators other than the connected wallet are unverified."}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={addCreator} disabled={creators.length >= maxCreators}>
+          Add Creator
+        </Button>
+      </div>
+
+      {creators.length > 0 && (
+        <div className="space-y-2">
+          {creators.map((creator, index) => (
+            <div key={`creator-${index}`} className="flex gap-2 items-center">
+              <Input
+                placeholder="Creator wallet address"
+                value={creator.address}
+                onChange={(e) => updateCreator(index, "address", e.target.value)}
+                className={`flex-1 font-mono text-sm ${
+                  creator.address && !validateSolanaAddress(creator.address) ? "border-red-300" : ""
+                }`}
+              />
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={creator.share}
+                  onChange={(e) => updateCreator(index, "share", e.target.value)}
+                  className="w-20"
+                />
+                <span className="text-sm text-gray-500">%</span>
+              </div>
+              {creator.address === walletAddress && <Badge variant="secondary">You</Badge>}
+              <Button variant="outline" size="sm" onClick={() => removeCreator(index)} className="shrink-0">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <p className={`text-xs ${totalShare === 100 ? "text-green-600" : "text-red-500"}`}>Total: {totalShare}%</p>
+        </div>
+      )}
+    </div>
+  )
+}
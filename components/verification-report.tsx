@@ -0,0 +1,86 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Download, Loader2, RotateCcw, ShieldCheck } from "lucide-react"
+import { downloadCsv } from "@/lib/csv"
+import { generateVerificationReport, type MintVerification } from "@/lib/mint-verification"
+
+const STATUS_BADGES: Record<MintVerification["status"], { label: string; className: string }> = {
+  passed: { label: "Passed", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-700" },
+}
+
+interface VerificationReportProps {
+  verifications: MintVerification[]
+  currentStep: string // Set while verification is running
+  onRerun: () => void
+}
+
+// Pass/fail results of reading minted NFTs back from chain
+export function VerificationReport({ verifications, currentStep, onRerun }: VerificationReportProps) {
+  const passed = verifications.filter((verification) => verification.status === "passed").length
+  const failed = verifications.filter((verification) => verification.status === "failed")
+  const skipped = verifications.length - passed - failed.length
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            On-chain Verification
+          </span>
+          <Button variant="outline" size="sm" onClick={onRerun} disabled={!!currentStep}>
+            {currentStep ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          {currentStep ||
+            `${passed} passed, ${failed.length} failed${skipped > 0 ? `, ${skipped} skipped` : ""}. Mint, metadata, name, URI, creators, collection and owner are read back from chain.`}
+        </CardDescription>
+      </CardHeader>
+      {verifications.length > 0 && (
+        <CardContent className="space-y-3">
+          {failed.length > 0 && (
+            <div className="max-h-96 overflow-y-auto border rounded-lg divide-y">
+              {failed.map((verification) => (
+                <div key={verification.mintAddress} className="p-2 text-sm space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-mono text-xs truncate">
+                      {verification.index !== undefined && `#${verification.index + 1} `}
+                      {verification.mintAddress}
+                    </p>
+                    <Badge variant="outline" className={STATUS_BADGES[verification.status].className}>
+                      {STATUS_BADGES[verification.status].label}
+                    </Badge>
+                  </div>
+                  {verification.error && <p className="text-xs text-red-600">{verification.error}</p>}
+                  {verification.checks
+                    .filter((check) => !check.passed)
+                    .map((check) => (
+                      <p key={check.field} className="text-xs text-red-600 break-all">
+                        {check.field}: expected {check.expected}, found {check.actual}
+                      </p>
+                    ))}
+                </div>
+              ))}
+            </div>
+          )}
+          <Button
+            variant="outline"
+            disabled={!!currentStep}
+            onClick={() =>
+              downloadCsv(generateVerificationReport(verifications), `verification_report_${Date.now()}.csv`)
+            }
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download Report
+          </Button>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,123 @@
+import { CONFIG } from "./config"
+import type { EnhancedMintResult } from "./enhanced-metaplex-service"
+import { validateSolanaAddress } from "./validation"
+import { escapeCsv, splitCsvLine } from "./csv"
+
+export interface BulkUpdateRow {
+  line: number // Line in the CSV, for error messages
+  mintAddress: string
+  name?: string // Fields left empty keep their current value
+  uri?: string
+  royalty?: number // Basis points
+}
+
+export interface BulkUpdateChange {
+  field: "name" | "uri" | "royalty"
+  from: string | number
+  to: string | number
+}
+
+export type BulkUpdateState = "ready" | "unchanged" | "invalid" | "updating" | "updated" | "failed" | "skipped"
+
+export interface BulkUpdateItem {
+  row: BulkUpdateRow
+  state: BulkUpdateState
+  changes: BulkUpdateChange[]
+  signature?: string
+  error?: string
+}
+
+const COLUMNS: Record<string, "mintAddress" | "name" | "uri" | "royalty"> = {
+  mint: "mintAddress",
+  mint_address: "mintAddress",
+  name: "name",
+  uri: "uri",
+  metadata_uri: "uri",
+  seller_fee_basis_points: "royalty",
+}
+
+export const BULK_UPDATE_HEADER = "mint_address,name,uri,seller_fee_basis_points"
+
+export function parseBulkUpdateCsv(text: string): { rows: BulkUpdateRow[]; errors: string[] } {
+  const lines = text.split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => line.trim())
+  if (headerIndex === -1) {
+    return { rows: [], errors: ["The CSV file is empty"] }
+  }
+
+  const header = splitCsvLine(lines[headerIndex]).map((column) => COLUMNS[column.toLowerCase()])
+  if (!header.includes("mintAddress")) {
+    return { rows: [], errors: [`The CSV needs a mint_address column (expected: ${BULK_UPDATE_HEADER})`] }
+  }
+
+  const rows: BulkUpdateRow[] = []
+  const errors: string[] = []
+  const seen = new Set<string>()
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue
+
+    const line = i + 1
+    const row: BulkUpdateRow = { line, mintAddress: "" }
+    const rowErrors: string[] = []
+
+    splitCsvLine(lines[i]).forEach((value, column) => {
+      const field = header[column]
+      if (!field || !value) return
+      if (field === "royalty") {
+        row.royalty = Number(value)
+      } else {
+        row[field] = value
+      }
+    })
+
+    if (!validateSolanaAddress(row.mintAddress)) {
+      rowErrors.push(`invalid mint address "${row.mintAddress}"`)
+    } else if (seen.has(row.mintAddress)) {
+      rowErrors.push(`${row.mintAddress} is listed more than once`)
+    }
+    if (row.name !== undefined && row.name.length > CONFIG.NFT.maxNameLength) {
+      rowErrors.push(`name must be at most ${CONFIG.NFT.maxNameLength} characters`)
+    }
+    if (row.uri !== undefined && row.uri.length > CONFIG.NFT.maxUriLength) {
+      rowErrors.push(`URI must be at most ${CONFIG.NFT.maxUriLength} characters`)
+    }
+    if (row.royalty !== undefined && (!Number.isInteger(row.royalty) || row.royalty < 0 || row.royalty > 10000)) {
+      rowErrors.push("seller_fee_basis_points must be a whole number between 0 and 10000")
+    }
+    if (row.name === undefined && row.uri === undefined && row.royalty === undefined) {
+      rowErrors.push("nothing to update")
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(`Line ${line}: ${rowErrors.join(", ")}`)
+    } else {
+      seen.add(row.mintAddress)
+      rows.push(row)
+    }
+  }
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push("The CSV has no rows to update")
+  }
+
+  return { rows, errors }
+}
+
+// Starting point for a bulk update: one row per minted NFT with its current metadata URI
+export function generateBulkUpdateTemplate(results: EnhancedMintResult[]): string {
+  const lines = [BULK_UPDATE_HEADER]
+  for (const result of results) {
+    lines.push([result.mintAddress, "", result.metadataUri, ""].map(escapeCsv).join(","))
+  }
+  return lines.join("\n")
+}
+
+export function generateBulkUpdateReport(items: BulkUpdateItem[]): string {
+  const lines = ["mint_address,status,changes,signature,error"]
+  for (const item of items) {
+    const changes = item.changes.map((change) => `${change.field}: ${change.from} -> ${change.to}`).join("; ")
+    lines.push([item.row.mintAddress, item.state, changes, item.signature, item.error].map(escapeCsv).join(","))
+  }
+  return lines.join("\n")
+}
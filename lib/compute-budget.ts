@@ -0,0 +1,143 @@
+import {
+  ComputeBudgetProgram,
+  TransactionMessage,
+  VersionedTransaction,
+  type Connection,
+  PublicKey,
+  type TransactionInstruction,
+} from "@solana/web3.js"
+import { setComputeUnitLimit, setComputeUnitPrice } from "@metaplex-foundation/mpl-toolbox"
+import type { TransactionBuilder, Umi } from "@metaplex-foundation/umi"
+import { CONFIG } from "./config"
+
+export type PriorityFeeStrategy = { type: "none" } | { type: "fixed"; microLamports: number } | { type: "auto" } // Derived from recent prioritization fees
+
+export interface ComputeBudget {
+  unitLimit: number
+  microLamports: number
+}
+
+// Highest limit the runtime accepts, so simulation never fails for running out of compute
+const MAX_COMPUTE_UNITS = 1400000
+
+const MICRO_LAMPORTS_PER_LAMPORT = 1000000
+
+export function getPriorityFeeLamports(microLamports: number, unitLimit: number): number {
+  return Math.ceil((microLamports * unitLimit) / MICRO_LAMPORTS_PER_LAMPORT)
+}
+
+// Resolves a strategy to a price in micro-lamports per compute unit. Automatic fees fall back to none
+// when the RPC doesn't support getRecentPrioritizationFees.
+export async function resolvePriorityFee(
+  connection: Connection,
+  strategy: PriorityFeeStrategy = { type: "none" },
+  writableAccounts: PublicKey[] = [],
+): Promise<number> {
+  switch (strategy.type) {
+    case "none":
+      return 0
+    case "fixed":
+      return Math.max(0, Math.floor(strategy.microLamports))
+    case "auto":
+      try {
+        const recentFees = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts })
+        if (recentFees.length === 0) return 0
+
+        const fees = recentFees.map((fee) => fee.prioritizationFee).sort((a, b) => a - b)
+        const percentileIndex = Math.min(
+          fees.length - 1,
+          Math.floor((CONFIG.PRIORITY_FEES.autoPercentile / 100) * fees.length),
+        )
+        return Math.min(fees[percentileIndex], CONFIG.PRIORITY_FEES.maxMicroLamports)
+      } catch (error) {
+        console.warn("Failed to fetch recent prioritization fees, minting without a priority fee:", error)
+        return 0
+      }
+  }
+}
+
+// The limit to send with, from a simulation run at the maximum limit
+function getUnitLimit(result: { err: unknown; unitsConsumed?: number; logs: string[] | null }): number {
+  if (!result.err && result.unitsConsumed) {
+    return Math.min(MAX_COMPUTE_UNITS, Math.ceil(result.unitsConsumed * CONFIG.PRIORITY_FEES.unitLimitMargin))
+  }
+  if (result.err) {
+    console.warn("Compute unit simulation failed, using fallback limit:", result.err, result.logs)
+  }
+  return CONFIG.PRIORITY_FEES.fallbackUnitLimit
+}
+
+// Simulates the transaction to size its compute-unit limit, then prepends the compute budget
+// instructions. Must be called before the blockhash is set on the builder.
+export async function withComputeBudget(
+  umi: Umi,
+  builder: TransactionBuilder,
+  microLamports: number,
+): Promise<{ builder: TransactionBuilder; budget: ComputeBudget }> {
+  let unitLimit: number = CONFIG.PRIORITY_FEES.fallbackUnitLimit
+
+  try {
+    const simulation = await builder
+      .prepend(setComputeUnitLimit(umi, { units: MAX_COMPUTE_UNITS }))
+      .setBlockhash(await umi.rpc.getLatestBlockhash())
+      .build(umi)
+    unitLimit = getUnitLimit(await umi.rpc.simulateTransaction(simulation, { verifySignatures: false }))
+  } catch (error) {
+    console.warn("Compute unit simulation failed, using fallback limit:", error)
+  }
+
+  let budgeted = builder.prepend(setComputeUnitLimit(umi, { units: unitLimit }))
+  if (microLamports > 0) {
+    budgeted = budgeted.prepend(setComputeUnitPrice(umi, { microLamports }))
+  }
+
+  return { builder: budgeted, budget: { unitLimit, microLamports } }
+}
+
+// Whether the builder still fits in one transaction once withComputeBudget has added its instructions
+export function fitsWithComputeBudget(umi: Umi, builder: TransactionBuilder, microLamports: number): boolean {
+  let budgeted = builder.prepend(setComputeUnitLimit(umi, { units: MAX_COMPUTE_UNITS }))
+  if (microLamports > 0) {
+    budgeted = budgeted.prepend(setComputeUnitPrice(umi, { microLamports }))
+  }
+  return budgeted.fitsInOneTransaction(umi)
+}
+
+// The compute budget instructions a transaction starts with. They're the same size whatever their values, so
+// a transaction can be packed with placeholder values and budgeted once it's about to be sent.
+export function getComputeBudgetInstructions({ unitLimit, microLamports }: ComputeBudget): TransactionInstruction[] {
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit }),
+    ...(microLamports > 0 ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })] : []),
+  ]
+}
+
+// withComputeBudget for plain web3.js instructions. Accounts the instructions rely on must already exist,
+// so a transaction that follows another is only budgeted once the first has landed.
+export async function withComputeBudgetInstructions(
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  microLamports: number,
+): Promise<{ instructions: TransactionInstruction[]; budget: ComputeBudget }> {
+  let unitLimit: number = CONFIG.PRIORITY_FEES.fallbackUnitLimit
+
+  try {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      // Replaced by the RPC, which saves fetching a blockhash just to simulate
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }), ...instructions],
+    }).compileToLegacyMessage()
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    })
+    unitLimit = getUnitLimit(value)
+  } catch (error) {
+    console.warn("Compute unit simulation failed, using fallback limit:", error)
+  }
+
+  const budget = { unitLimit, microLamports }
+  return { instructions: [...getComputeBudgetInstructions(budget), ...instructions], budget }
+}
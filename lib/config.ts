@@ -46,11 +46,45 @@ export const CONFIG = {
   // NFT configuration
   NFT: {
     maxNameLength: 32,
+    maxSymbolLength: 10, // Bytes, enforced on-chain
+    maxUriLength: 200, // Enforced on-chain by Token Metadata
+    defaultSymbol: "NFT",
     maxDescriptionLength: 1000,
     maxAttributes: 20,
+    maxCreators: 5, // Token Metadata allows at most 5 creators
     defaultRoyalty: 500, // 5%
   },
 
+  // Collection minting pipeline
+  MINTING: {
+    defaultConcurrency: 4,
+    maxConcurrency: 10,
+    maxRetries: 3,
+    blockhashRefreshMs: 30000,
+    maxSignBatchSize: 25, // Most transactions the wallet is asked to approve in one prompt
+    estimatedConfirmMs: 8000, // Send-to-confirm time per transaction until a batch has been timed
+    msPerBlock: 400,
+    confirmPollMs: 2000, // How often a sent transaction's status is polled alongside its websocket subscription
+    rebroadcastMs: 2000, // Unconfirmed transactions are resent this often until their blockhash expires
+    maxConfirmPollFailures: 5, // Consecutive RPC errors while polling before the outcome is given up as unknown
+    finalizeWatchMs: 60000, // How long a confirmed transaction is watched for finalization before it's left at confirmed
+  },
+
+  // Compute budget and priority fees for mint transactions
+  PRIORITY_FEES: {
+    defaultMicroLamports: 10000, // Per compute unit, used as the starting value for fixed fees
+    maxMicroLamports: 2000000, // Cap on automatic fees so a fee spike can't drain the wallet
+    autoPercentile: 75, // Percentile of recent prioritization fees used by the automatic strategy
+    estimatedUnitsPerMint: 250000, // Used for cost estimates before a transaction can be simulated
+    fallbackUnitLimit: 400000, // Used when simulation fails
+    unitLimitMargin: 1.1, // Headroom on top of simulated compute units
+  },
+  COMPRESSION: {
+    // Proof nodes a transfer has to send; deeper levels are cached on-chain in the tree's canopy
+    maxProofLength: 10,
+    maxCanopyDepth: 17, // Largest canopy the account compression program accepts
+  },
+
   // UI configuration
   UI: {
     toastDuration: 5000,
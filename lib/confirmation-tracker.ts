@@ -0,0 +1,186 @@
+import { Connection, SendTransactionError, type SignatureResult } from "@solana/web3.js"
+import { CONFIG } from "./config"
+import { createError, ERROR_CODES, isNFTMinterError } from "./errors"
+
+// Where a sent transaction ended up. "confirmed" is as far as anything waits; "finalized" follows it once the
+// cluster has rooted the block, and "expired" and "failed" are final.
+export type ConfirmationState = "pending" | "confirmed" | "finalized" | "expired" | "failed"
+
+export interface TrackOptions {
+  endpoint: string
+  rawTransaction: Uint8Array
+  signature: string
+  lastValidBlockHeight: number // Of the blockhash the transaction was signed with
+  onStateChange?: (state: ConfirmationState) => void
+}
+
+interface Outcome {
+  state: "confirmed" | "finalized"
+  err: SignatureResult["err"]
+}
+
+// Confirms a signed transaction without relying on any single RPC call. The signature is watched over a
+// websocket subscription and by polling, and the same signed bytes are rebroadcast until they land or
+// their blockhash expires, so a dropped send can't leave the outcome unknown.
+export class ConfirmationTracker {
+  // One connection per endpoint, so every tracked transaction shares its websocket
+  private connections = new Map<string, Connection>()
+
+  async track(options: TrackOptions): Promise<void> {
+    const { endpoint, rawTransaction, signature, lastValidBlockHeight, onStateChange } = options
+    const connection = this.getConnection(endpoint)
+
+    // Only the first send is simulated, so program errors surface before we start waiting
+    try {
+      await connection.sendRawTransaction(rawTransaction, { skipPreflight: false, maxRetries: 0 })
+    } catch (error) {
+      // Anything else, like rate limiting, never reached the simulation and is left for the caller to retry
+      if (!(error instanceof SendTransactionError)) throw error
+      onStateChange?.("failed")
+      throw createError(ERROR_CODES.TRANSACTION_FAILED, `Transaction failed: ${error.message}`, {
+        signature,
+        confirmationState: "failed",
+        logs: error.logs,
+      })
+    }
+    onStateChange?.("pending")
+
+    let notified: Outcome | undefined
+    let wake = () => {}
+    const subscriptionId = connection.onSignature(
+      signature,
+      (result) => {
+        notified = { state: "confirmed", err: result.err }
+        wake()
+      },
+      "confirmed",
+    )
+
+    try {
+      let lastBroadcast = Date.now()
+      let pollFailures = 0
+
+      while (true) {
+        try {
+          const outcome = notified ?? (await this.getOutcome(connection, signature, false))
+          if (outcome) return this.settle(outcome, connection, signature, onStateChange)
+
+          if ((await connection.getBlockHeight("confirmed")) > lastValidBlockHeight) {
+            // The transaction can't land any more; a history lookup catches one that confirmed just in time
+            const late = notified ?? (await this.getOutcome(connection, signature, true))
+            if (late) return this.settle(late, connection, signature, onStateChange)
+
+            onStateChange?.("expired")
+            throw createError(
+              ERROR_CODES.CONFIRMATION_TIMEOUT,
+              `Transaction ${signature} expired: block height exceeded before it was confirmed`,
+              { signature, confirmationState: "expired" },
+            )
+          }
+          pollFailures = 0
+        } catch (error) {
+          // A flaky RPC shouldn't end tracking while the transaction may still land
+          if (isNFTMinterError(error) || ++pollFailures > CONFIG.MINTING.maxConfirmPollFailures) throw error
+          console.warn(`Checking ${signature} failed, still tracking:`, error)
+        }
+
+        if (Date.now() - lastBroadcast >= CONFIG.MINTING.rebroadcastMs) {
+          lastBroadcast = Date.now()
+          await connection
+            .sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+            .catch((error) => console.warn(`Rebroadcasting ${signature} failed:`, error))
+        }
+
+        await new Promise<void>((resolve) => {
+          wake = resolve
+          setTimeout(resolve, CONFIG.MINTING.confirmPollMs)
+        })
+      }
+    } finally {
+      connection.removeSignatureListener(subscriptionId).catch(() => {})
+    }
+  }
+
+  private getConnection(endpoint: string): Connection {
+    let connection = this.connections.get(endpoint)
+    if (!connection) {
+      connection = new Connection(endpoint, "confirmed")
+      this.connections.set(endpoint, connection)
+    }
+    return connection
+  }
+
+  // The signature's outcome once it's confirmed; processed results can still be rolled back
+  private async getOutcome(
+    connection: Connection,
+    signature: string,
+    searchTransactionHistory: boolean,
+  ): Promise<Outcome | null> {
+    const {
+      value: [status],
+    } = await connection.getSignatureStatuses([signature], { searchTransactionHistory })
+    if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+      return { state: status.confirmationStatus, err: status.err }
+    }
+    return null
+  }
+
+  private settle(
+    outcome: Outcome,
+    connection: Connection,
+    signature: string,
+    onStateChange?: (state: ConfirmationState) => void,
+  ) {
+    if (outcome.err) {
+      onStateChange?.("failed")
+      throw createError(ERROR_CODES.TRANSACTION_FAILED, `Transaction failed: ${JSON.stringify(outcome.err)}`, {
+        signature,
+        confirmationState: "failed",
+      })
+    }
+    onStateChange?.(outcome.state)
+    if (outcome.state === "confirmed" && onStateChange) {
+      this.watchFinalization(connection, signature, onStateChange).catch((error) =>
+        console.warn(`Watching ${signature} for finalization failed:`, error),
+      )
+    }
+  }
+
+  // Nothing waits on finalization, so it's reported in the background once the signature reaches it. A
+  // transaction the RPC doesn't show as finalized within finalizeWatchMs is left at "confirmed".
+  private async watchFinalization(
+    connection: Connection,
+    signature: string,
+    onStateChange: (state: ConfirmationState) => void,
+  ) {
+    let finalized = false
+    let wake = () => {}
+    const subscriptionId = connection.onSignature(
+      signature,
+      () => {
+        finalized = true
+        wake()
+      },
+      "finalized",
+    )
+
+    try {
+      const giveUpAt = Date.now() + CONFIG.MINTING.finalizeWatchMs
+      while (!finalized && Date.now() < giveUpAt) {
+        await new Promise<void>((resolve) => {
+          wake = resolve
+          setTimeout(resolve, CONFIG.MINTING.confirmPollMs)
+        })
+        if (!finalized) {
+          const outcome = await this.getOutcome(connection, signature, false).catch(() => null)
+          finalized = outcome?.state === "finalized"
+        }
+      }
+      if (finalized) onStateChange("finalized")
+    } finally {
+      connection.removeSignatureListener(subscriptionId).catch(() => {})
+    }
+  }
+}
+
+export const confirmationTracker = new ConfirmationTracker()
@@ -1,18 +1,24 @@
 import { Connection, LAMPORTS_PER_SOL } from "@solana/web3.js"
 import { CONFIG, type NetworkType } from "./config"
+import { costModel } from "./cost-model"
+import { resolvePriorityFee, type PriorityFeeStrategy } from "./compute-budget"
 
 export interface CostBreakdown {
   mintRent: number
   metadataRent: number
+  masterEditionRent: number
   ataRent: number
   transactionFees: number
+  priorityFees: number
   total: number
   totalSOL: number
   breakdown: {
     mintRentSOL: number
     metadataRentSOL: number
+    masterEditionRentSOL: number
     ataRentSOL: number
     transactionFeesSOL: number
+    priorityFeesSOL: number
   }
 }
 
@@ -21,61 +27,44 @@ class CostAnalyzer {
     return new Connection(CONFIG.NETWORKS[network].url, "confirmed")
   }
 
-  async getDetailedCostBreakdown(network: NetworkType): Promise<CostBreakdown> {
-    try {
-      const connection = this.getConnection(network)
-
-      // Get actual rent exemption amounts from the network
-      const mintRent = await connection.getMinimumBalanceForRentExemption(82) // Mint account size
-      const metadataRent = await connection.getMinimumBalanceForRentExemption(679) // Metadata account size
-      const ataRent = await connection.getMinimumBalanceForRentExemption(165) // Associated Token Account size
-
-      // Estimate transaction fees (this varies by network congestion)
-      const transactionFees = 5000 * 3 // ~3 signatures needed, 5000 lamports per signature
-
-      const total = mintRent + metadataRent + ataRent + transactionFees
-
-      return {
-        mintRent,
-        metadataRent,
-        ataRent,
-        transactionFees,
-        total,
-        totalSOL: total / LAMPORTS_PER_SOL,
-        breakdown: {
-          mintRentSOL: mintRent / LAMPORTS_PER_SOL,
-          metadataRentSOL: metadataRent / LAMPORTS_PER_SOL,
-          ataRentSOL: ataRent / LAMPORTS_PER_SOL,
-          transactionFeesSOL: transactionFees / LAMPORTS_PER_SOL,
-        },
-      }
-    } catch (error) {
-      console.error("Failed to get cost breakdown:", error)
-      // Return estimated costs if network call fails
-      return {
-        mintRent: 1461600,
-        metadataRent: 5616720,
-        ataRent: 2039280,
-        transactionFees: 15000,
-        total: 9132600,
-        totalSOL: 0.0091326,
-        breakdown: {
-          mintRentSOL: 0.0014616,
-          metadataRentSOL: 0.0056167,
-          ataRentSOL: 0.0020393,
-          transactionFeesSOL: 0.000015,
-        },
-      }
+  // Cost of one Token Metadata NFT, from the same model the minter uses for its estimates
+  async getDetailedCostBreakdown(
+    network: NetworkType,
+    priorityFee: PriorityFeeStrategy = { type: "none" },
+  ): Promise<CostBreakdown> {
+    const rent = await costModel.getRentTable(network)
+    const priorityFeeMicroLamports = await resolvePriorityFee(this.getConnection(network), priorityFee)
+    const estimate = costModel.calculateMintCost(rent, { mintType: "single", priorityFeeMicroLamports })
+
+    return {
+      mintRent: rent.mint,
+      metadataRent: rent.metadata,
+      masterEditionRent: rent.masterEdition,
+      ataRent: rent.token,
+      transactionFees: estimate.signatureFees,
+      priorityFees: estimate.priorityFees,
+      total: estimate.total,
+      totalSOL: estimate.total / LAMPORTS_PER_SOL,
+      breakdown: {
+        mintRentSOL: rent.mint / LAMPORTS_PER_SOL,
+        metadataRentSOL: rent.metadata / LAMPORTS_PER_SOL,
+        masterEditionRentSOL: rent.masterEdition / LAMPORTS_PER_SOL,
+        ataRentSOL: rent.token / LAMPORTS_PER_SOL,
+        transactionFeesSOL: estimate.signatureFees / LAMPORTS_PER_SOL,
+        priorityFeesSOL: estimate.priorityFees / LAMPORTS_PER_SOL,
+      },
     }
   }
 
-  async compareCostsAcrossNetworks(): Promise<Record<NetworkType, CostBreakdown>> {
+  async compareCostsAcrossNetworks(
+    priorityFee: PriorityFeeStrategy = { type: "none" },
+  ): Promise<Record<NetworkType, CostBreakdown>> {
     const networks: NetworkType[] = ["solana-mainnet", "solana-devnet", "eclipse-mainnet", "eclipse-testnet"]
     const costs: Record<string, CostBreakdown> = {}
 
     for (const network of networks) {
       try {
-        costs[network] = await this.getDetailedCostBreakdown(network)
+        costs[network] = await this.getDetailedCostBreakdown(network, priorityFee)
       } catch (error) {
         console.error(`Failed to get costs for ${network}:`, error)
       }
@@ -91,10 +80,12 @@ class CostAnalyzer {
 💾 **Storage Costs (Rent Exemption):**
 • Mint Account: ${costs.breakdown.mintRentSOL.toFixed(6)} SOL
 • Metadata Account: ${costs.breakdown.metadataRentSOL.toFixed(6)} SOL  
+• Master Edition Account: ${costs.breakdown.masterEditionRentSOL.toFixed(6)} SOL
 • Token Account: ${costs.breakdown.ataRentSOL.toFixed(6)} SOL
 
 ⚡ **Transaction Fees:**
 • Network Fees: ${costs.breakdown.transactionFeesSOL.toFixed(6)} SOL
+• Priority Fees: ${costs.breakdown.priorityFeesSOL.toFixed(6)} SOL
 
 💰 **Total Cost: ${costs.totalSOL.toFixed(6)} SOL**
 
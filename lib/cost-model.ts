@@ -0,0 +1,206 @@
+import { Connection } from "@solana/web3.js"
+import { getTreeConfigSize } from "@metaplex-foundation/mpl-bubblegum"
+import { CONFIG, type NetworkType } from "./config"
+import { getPriorityFeeLamports } from "./compute-budget"
+import { getTreeAccountSize, getTreeSizeForQuantity } from "./merkle-tree"
+import type { NftProgram, NftTokenStandard } from "./validation"
+
+// Account sizes in bytes. Metadata accounts are always allocated at their maximum size.
+export const ACCOUNT_SIZES = {
+  mint: 82,
+  metadata: 679,
+  token: 165,
+  masterEdition: 282,
+  edition: 241,
+  editionMarker: 32,
+  tokenRecord: 80, // Programmable NFTs only
+  // Core keeps metadata and plugins in one account, sized here for a typical name, URI and plugins
+  coreAsset: 300,
+  coreCollection: 350,
+}
+
+export type RentTable = Record<keyof typeof ACCOUNT_SIZES, number>
+
+export const SIGNATURE_FEE_LAMPORTS = 5000
+
+// Each edition marker account records this many edition numbers
+const EDITIONS_PER_MARKER = 248
+
+// Rent exemption without the network: (size + 128 byte account header) × 3480 lamports per byte-year × 2 years
+const fallbackRent = (size: number) => (size + 128) * 3480 * 2
+
+export interface MintCostOptions {
+  mintType: "single" | "collection" | "editions" | "compressed"
+  quantity?: number
+  includeParentNft?: boolean // The collection NFT or master edition still has to be created
+  includeMerkleTree?: boolean // A new tree sized to the quantity has to be created for compressed NFTs
+  tokenStandard?: NftTokenStandard
+  program?: NftProgram
+  priorityFeeMicroLamports?: number
+}
+
+export interface CostLineItem {
+  label: string
+  count: number
+  rent: number // Lamports, for all `count` of them
+  fees: number // Signature and priority fees, for all `count` of them
+}
+
+export interface MintCostEstimate {
+  items: CostLineItem[]
+  rent: number
+  signatureFees: number
+  priorityFees: number
+  transactions: number
+  total: number
+  perItem: number // Cost of each NFT once the collection, master edition or tree exists
+}
+
+// One kind of transaction a mint sends, or rent paid alongside them when signatures is 0
+interface CostStep {
+  label: string
+  count: number
+  signatures: number
+  rent: number
+}
+
+class CostModel {
+  private getConnection(network: NetworkType): Connection {
+    return new Connection(CONFIG.NETWORKS[network].url, "confirmed")
+  }
+
+  // Rent exemption for every account a mint can create, falling back to the standard rate if the network call fails
+  async getRentTable(network: NetworkType): Promise<RentTable> {
+    const names = Object.keys(ACCOUNT_SIZES) as Array<keyof typeof ACCOUNT_SIZES>
+    try {
+      const connection = this.getConnection(network)
+      const rents = await Promise.all(
+        names.map((name) => connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZES[name])),
+      )
+      return Object.fromEntries(names.map((name, i) => [name, rents[i]])) as RentTable
+    } catch (error) {
+      console.error("Failed to get rent figures:", error)
+      return Object.fromEntries(names.map((name) => [name, fallbackRent(ACCOUNT_SIZES[name])])) as RentTable
+    }
+  }
+
+  async estimateMint(network: NetworkType, options: MintCostOptions): Promise<MintCostEstimate> {
+    const rent = await this.getRentTable(network)
+    let treeRent = 0
+    if (options.mintType === "compressed" && options.includeMerkleTree) {
+      const connection = this.getConnection(network)
+      const treeSize = getTreeSizeForQuantity(options.quantity ?? 1)
+      treeRent =
+        (await connection.getMinimumBalanceForRentExemption(getTreeAccountSize(treeSize))) +
+        (await connection.getMinimumBalanceForRentExemption(getTreeConfigSize()))
+    }
+    return this.calculateMintCost(rent, options, treeRent)
+  }
+
+  calculateMintCost(rent: RentTable, options: MintCostOptions, treeRent = 0): MintCostEstimate {
+    const {
+      mintType,
+      quantity = 1,
+      includeParentNft = false,
+      includeMerkleTree = false,
+      tokenStandard = "NonFungible",
+      program = "token-metadata",
+      priorityFeeMicroLamports = 0,
+    } = options
+    const programmable = tokenStandard === "ProgrammableNonFungible"
+
+    // createNft makes every Token Metadata NFT a master edition of its own
+    const nftRent = (withTokenRecord: boolean) =>
+      rent.mint + rent.metadata + rent.masterEdition + rent.token + (withTokenRecord ? rent.tokenRecord : 0)
+
+    const parents: CostStep[] = []
+    let item: CostStep
+    if (program === "core") {
+      if (includeParentNft) {
+        parents.push({ label: "Core collection", count: 1, signatures: 2, rent: rent.coreCollection })
+      }
+      item = { label: "Core asset", count: quantity, signatures: 2, rent: rent.coreAsset }
+    } else {
+      switch (mintType) {
+        case "single":
+        case "collection":
+          // Collection NFTs are always NonFungible
+          if (mintType === "collection" && includeParentNft) {
+            parents.push({ label: "Collection NFT", count: 1, signatures: 2, rent: nftRent(false) })
+          }
+          item = { label: "NFT", count: quantity, signatures: 2, rent: nftRent(programmable) }
+          break
+        case "editions":
+          if (includeParentNft) {
+            parents.push({ label: "Master edition", count: 1, signatures: 2, rent: nftRent(programmable) })
+          }
+          parents.push({
+            label: "Edition markers",
+            count: Math.ceil(quantity / EDITIONS_PER_MARKER),
+            signatures: 0,
+            rent: rent.editionMarker,
+          })
+          item = {
+            label: "Edition print",
+            count: quantity,
+            signatures: 2,
+            rent: rent.mint + rent.metadata + rent.edition + rent.token + (programmable ? rent.tokenRecord : 0),
+          }
+          break
+        case "compressed":
+          if (includeParentNft) {
+            parents.push({ label: "Collection NFT", count: 1, signatures: 2, rent: nftRent(false) })
+          }
+          if (includeMerkleTree) parents.push({ label: "Merkle tree", count: 1, signatures: 2, rent: treeRent })
+          // Compressed NFTs live in the tree, so each one only pays for a single-signer transaction
+          item = { label: "Compressed NFT", count: quantity, signatures: 1, rent: 0 }
+          break
+      }
+    }
+
+    const priorityFeePerTransaction = getPriorityFeeLamports(
+      priorityFeeMicroLamports,
+      CONFIG.PRIORITY_FEES.estimatedUnitsPerMint,
+    )
+    const stepFees = (step: CostStep) =>
+      step.signatures > 0 ? step.signatures * SIGNATURE_FEE_LAMPORTS + priorityFeePerTransaction : 0
+
+    const steps = [...parents, item]
+    const transactions = steps.reduce((sum, step) => sum + (step.signatures > 0 ? step.count : 0), 0)
+    const rentTotal = steps.reduce((sum, step) => sum + step.rent * step.count, 0)
+    const signatureFees = steps.reduce((sum, step) => sum + step.signatures * SIGNATURE_FEE_LAMPORTS * step.count, 0)
+    const priorityFees = priorityFeePerTransaction * transactions
+
+    return {
+      items: steps.map((step) => ({
+        label: step.label,
+        count: step.count,
+        rent: step.rent * step.count,
+        fees: stepFees(step) * step.count,
+      })),
+      rent: rentTotal,
+      signatureFees,
+      priorityFees,
+      transactions,
+      total: rentTotal + signatureFees + priorityFees,
+      perItem: item.rent + stepFees(item),
+    }
+  }
+
+  // Lamports returned to the owner when an NFT is burned. The token account, metadata and edition are
+  // closed; the mint account can't be closed by the token program, so its rent stays locked.
+  getBurnRefund(
+    rent: RentTable,
+    nft: { hasMasterEdition: boolean; printEdition?: boolean; programmable: boolean },
+  ): number {
+    return (
+      rent.token +
+      rent.metadata +
+      (nft.hasMasterEdition ? rent.masterEdition : 0) +
+      (nft.printEdition ? rent.edition : 0) +
+      (nft.programmable ? rent.tokenRecord : 0)
+    )
+  }
+}
+
+export const costModel = new CostModel()
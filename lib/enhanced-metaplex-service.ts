@@ -3,11 +3,100 @@ import { getAssociatedTokenAddress } from "@solana/spl-token"
 import type { WalletAdapter } from "@solana/wallet-adapter-base"
 import { createUmi } from "@metaplex-foundation/umi-bundle-defaults"
 import { walletAdapterIdentity } from "@metaplex-foundation/umi-signer-wallet-adapters"
-import { createNft, mplTokenMetadata, findMetadataPda, TokenStandard } from "@metaplex-foundation/mpl-token-metadata"
-import { generateSigner, percentAmount, publicKey } from "@metaplex-foundation/umi"
-import type { PublicKey as UmiPublicKey } from "@metaplex-foundation/umi"
+import {
+  createNft,
+  createProgrammableNft,
+  findTokenRecordPda,
+  findMasterEditionPda,
+  findEditionMarkerFromEditionNumberPda,
+  fetchMasterEditionFromSeeds,
+  safeFetchMasterEditionFromSeeds,
+  printSupply,
+  printV1,
+  TokenStandard,
+  mplTokenMetadata,
+  findMetadataPda,
+  safeFetchMetadataFromSeeds,
+  fetchMetadataFromSeeds,
+  deserializeMetadata,
+  fetchAllDigitalAssetWithTokenByOwner,
+  fetchDigitalAssetWithAssociatedToken,
+  transferV1,
+  burnV1,
+  type Edition,
+  type Metadata,
+  updateV1,
+  verifyCollectionV1,
+} from "@metaplex-foundation/mpl-token-metadata"
+import {
+  createTree,
+  mintToCollectionV1,
+  mplBubblegum,
+  parseLeafFromMintToCollectionV1Transaction,
+  safeFetchTreeConfigFromSeeds,
+} from "@metaplex-foundation/mpl-bubblegum"
+import {
+  create as createAsset,
+  createCollection,
+  fetchCollection,
+  mplCore,
+  safeFetchAssetV1,
+  safeFetchCollectionV1,
+  updateCollection,
+  type CollectionV1,
+  type CreateArgsPlugin,
+} from "@metaplex-foundation/mpl-core"
+import { deserializeMint, deserializeToken, findAssociatedTokenPda } from "@metaplex-foundation/mpl-toolbox"
+import {
+  generateSigner,
+  isSome,
+  percentAmount,
+  publicKey,
+  signAllTransactions,
+  transactionBuilder,
+  unwrapOption,
+} from "@metaplex-foundation/umi"
+import type {
+  BlockhashWithExpiryBlockHeight,
+  KeypairSigner,
+  PublicKey as UmiPublicKey,
+  Transaction,
+  TransactionBuilder,
+  TransactionSignature,
+  Umi,
+} from "@metaplex-foundation/umi"
 import { CONFIG, type NetworkType, isEclipseNetwork } from "./config"
 import { createError, ERROR_CODES } from "./errors"
+import type { CreatorShare, NftProgram, NftTokenStandard } from "./validation"
+import {
+  BlockhashCache,
+  ConfirmationLog,
+  runPipeline,
+  runSignedBatches,
+  isBlockhashError,
+  type PipelineItemStatus,
+} from "./mint-pipeline"
+import {
+  fitsWithComputeBudget,
+  getPriorityFeeLamports,
+  resolvePriorityFee,
+  withComputeBudget,
+  type PriorityFeeStrategy,
+} from "./compute-budget"
+import { getTreeSizeForQuantity } from "./merkle-tree"
+import { confirmationTracker, type ConfirmationState } from "./confirmation-tracker"
+import { costModel } from "./cost-model"
+import { token2022Service } from "./token-2022-service"
+import {
+  checkExists,
+  checkField,
+  formatCreators,
+  summarizeChecks,
+  type MintExpectation,
+  type MintVerification,
+  type VerificationCheck,
+} from "./mint-verification"
+import type { BulkUpdateChange, BulkUpdateItem, BulkUpdateRow } from "./bulk-update"
 import bs58 from "bs58"
 
 export interface EnhancedMintResult {
@@ -16,9 +105,16 @@ export interface EnhancedMintResult {
   explorerUrl: string
   metadataAddress: string
   tokenAccount: string
+  tokenRecord?: string // Programmable NFTs only
   metadataUri: string
   editionNumber?: number
-  masterEdition?: string
+  masterEdition?: string // Mint address of the master edition a print was made from
+  index?: number // Position within a collection batch
+  // Compressed NFTs only; they have no mint, metadata or token account, mintAddress holds the asset ID
+  assetId?: string
+  leafIndex?: number
+  recovered?: boolean // Landed on-chain during an attempt that looked like it failed
+  soulbound?: boolean // Frozen or non-transferable from the moment it was minted
 }
 
 export interface BatchMintResult {
@@ -27,7 +123,13 @@ export interface BatchMintResult {
   failed: number
   totalCost: number
   insufficientFunds?: boolean
+  signingRejected?: boolean // The wallet declined a batch prompt; unsigned NFTs are left for a resume
   remainingBalance?: number
+  collectionMint?: string
+  masterEdition?: string // Mint address of the master edition for edition prints
+  editionSupply?: { printed: number; maxSupply: number | null }
+  merkleTree?: string // Tree holding compressed NFTs
+  recovered: number // Mints detected on-chain instead of being retried
 }
 
 export interface SingleMintOptions {
@@ -39,11 +141,29 @@ export interface SingleMintOptions {
   wallet: WalletAdapter
   network: NetworkType
   recipientAddress?: string
+  creators?: CreatorShare[] // Defaults to the connected wallet with a 100% share
+  symbol?: string // Defaults to "NFT"
+  isMutable?: boolean // Defaults to true
+  updateAuthority?: string // Defaults to the connected wallet
+  tokenStandard?: NftTokenStandard // Defaults to NonFungible
+  ruleSet?: string // Authorization rule set for programmable NFTs
+  program?: NftProgram // Defaults to token-metadata
+  freezable?: boolean // Core only: adds a permanent freeze delegate held by the update authority
+  soulbound?: boolean // Core only: the permanent freeze delegate starts frozen, so the asset can't be transferred
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
   onProgress?: (message: string) => void
 }
 
+// A signed mint transaction, reported before it's sent so an interrupted job can tell whether it landed
+export interface MintAttempt {
+  index: number
+  mintAddress: string
+  signature: string // Base58
+  lastValidBlockHeight: number // Of the blockhash it was signed with; it can't land after this block
+}
+
 export interface CollectionMintOptions {
-  collectionCollection: string
+  collectionName: string
   description: string
   imageUris: string[]
   metadataUris: string[]
@@ -51,9 +171,229 @@ export interface CollectionMintOptions {
   wallet: WalletAdapter
   network: NetworkType
   recipients?: string[]
-  onProgress?: (message: string, current: number, total: number) => void
+  creators?: CreatorShare[] // Defaults to the connected wallet with a 100% share
+  symbol?: string // Defaults to "NFT"
+  isMutable?: boolean // Applies to the minted NFTs; the collection NFT always stays mutable
+  // Update authority for the NFTs and the collection (defaults to the connected wallet). The collection is
+  // only handed over once every NFT is minted, since the minting wallet has to verify items into it.
+  updateAuthority?: string
+  tokenStandard?: NftTokenStandard // Defaults to NonFungible; the collection NFT itself is always NonFungible
+  ruleSet?: string // Authorization rule set for programmable NFTs
+  // Defaults to token-metadata. Core assets are minted into a Core collection that carries the royalties.
+  program?: NftProgram
+  freezable?: boolean // Core only: adds a permanent freeze delegate held by the update authority
+  soulbound?: boolean // Core only: the permanent freeze delegate starts frozen, so the asset can't be transferred
+  // Existing collection NFT to mint into; a new sized collection is created when omitted
+  collectionMint?: string
+  // Metadata URI for the collection NFT itself, required when creating a new collection
+  collectionMetadataUri?: string
+  // Number of NFTs minted in parallel (defaults to CONFIG.MINTING.defaultConcurrency)
+  concurrency?: number
+  // Retry budget per NFT (defaults to CONFIG.MINTING.maxRetries)
+  maxRetries?: number
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  // Items already minted by a previous run of the same job; their indices are skipped
+  completedResults?: EnhancedMintResult[]
+  // Transactions a previous run signed but never saw confirmed; they're checked on-chain before re-minting
+  pendingAttempts?: MintAttempt[]
+  onCollectionReady?: (collectionMint: string) => void
+  // Awaited before each mint transaction is sent, so the attempt can be persisted first
+  onItemSigned?: (attempt: MintAttempt) => Promise<void>
+  onItemMinted?: (index: number, result: EnhancedMintResult) => void
+  onProgress?: (message: string, current: number, total: number, item?: PipelineItemStatus) => void
+}
+
+export interface EditionsMintOptions {
+  name: string
+  description: string
+  // Artwork and metadata for a new master edition; prints from an existing one reuse its metadata
+  imageUri?: string
+  metadataUri?: string
+  royalty: number
+  wallet: WalletAdapter
+  network: NetworkType
+  // Existing master edition to print from; the connected wallet must hold its token
+  masterEditionMint?: string
+  // Max supply for a new master edition, required when masterEditionMint is omitted
+  maxSupply?: number
+  editionCount: number
+  recipients?: string[] // One per edition; missing entries go to the connected wallet
+  creators?: CreatorShare[] // Defaults to the connected wallet with a 100% share
+  symbol?: string // Defaults to "NFT"
+  isMutable?: boolean // Defaults to true
+  updateAuthority?: string // Defaults to the connected wallet
+  tokenStandard?: NftTokenStandard // Prints always share the master edition's standard
+  ruleSet?: string // Authorization rule set for programmable NFTs
+  concurrency?: number
+  maxRetries?: number
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onProgress?: (message: string, current: number, total: number, item?: PipelineItemStatus) => void
+}
+
+export interface CompressedMintOptions {
+  collectionName: string // Compressed NFTs are named "<collectionName> #<n>"
+  metadataUri: string // Shared by every compressed NFT in the airdrop
+  royalty: number
+  wallet: WalletAdapter
+  network: NetworkType
+  quantity: number
+  recipients?: string[] // One per compressed NFT; missing entries go to the connected wallet
+  creators?: CreatorShare[] // Defaults to the connected wallet with a 100% share
+  symbol?: string // Defaults to "NFT"
+  isMutable?: boolean // Defaults to true
+  updateAuthority?: string // Collection update authority, handed over once every NFT is minted
+  // Existing collection NFT to mint into; a new sized collection is created when omitted
+  collectionMint?: string
+  collectionMetadataUri?: string
+  // Existing Bubblegum tree to mint into; a new one sized to the quantity is created when omitted
+  merkleTree?: string
+  concurrency?: number
+  maxRetries?: number
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onProgress?: (message: string, current: number, total: number, item?: PipelineItemStatus) => void
+}
+
+export interface EditableNft {
+  mintAddress: string
+  name: string
+  symbol: string
+  uri: string
+  royalty: number // Basis points
+  updateAuthority: string
+  isMutable: boolean
+  json: Record<string, any> | null // Off-chain metadata, null when the URI couldn't be loaded
+}
+
+export interface UpdateNftOptions {
+  mintAddress: string
+  name: string
+  symbol: string
+  metadataUri: string
+  royalty: number
+  wallet: WalletAdapter
+  network: NetworkType
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onProgress?: (message: string) => void
+}
+
+export interface BulkUpdateOptions {
+  items: BulkUpdateItem[] // Output of planBulkUpdate; only "ready" items are sent
+  wallet: WalletAdapter
+  network: NetworkType
+  concurrency?: number
+  maxRetries?: number
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onItemUpdate?: (item: BulkUpdateItem) => void
+  onProgress?: (message: string, completed: number, total: number) => void
+}
+
+export interface OwnedNft {
+  mintAddress: string
+  name: string
+  symbol: string
+  uri: string
+  collection?: string
+  hasMasterEdition: boolean
+  printEdition: boolean
+  programmable: boolean
+}
+
+export type TransferState = "queued" | "transferring" | "transferred" | "failed" | "skipped"
+
+export interface TransferItem {
+  mintAddress: string
+  name: string
+  recipient: string
+  state: TransferState // Only "queued" items are sent
+  signature?: string
+  error?: string
+}
+
+export interface BulkTransferOptions {
+  items: TransferItem[]
+  wallet: WalletAdapter
+  network: NetworkType
+  concurrency?: number
+  maxRetries?: number
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onItemUpdate?: (item: TransferItem) => void
+  onProgress?: (message: string, completed: number, total: number) => void
+}
+
+export type BurnState = "queued" | "burning" | "burned" | "failed" | "skipped"
+
+export interface BurnItem {
+  mintAddress: string
+  name: string
+  state: BurnState // Only "queued" items are burned
+  signature?: string
+  reclaimedLamports?: number
+  error?: string
+}
+
+export interface BulkBurnOptions {
+  items: BurnItem[]
+  wallet: WalletAdapter
+  network: NetworkType
+  concurrency?: number
+  maxRetries?: number
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onItemUpdate?: (item: BurnItem) => void
+  onProgress?: (message: string, completed: number, total: number) => void
+}
+
+export interface DryRunOptions {
+  mintType: "single" | "collection"
+  name: string // Collection NFTs are named "<name> #n", as in a real mint
+  quantity: number // Ignored for single mints
+  royalty: number
+  wallet: WalletAdapter
+  network: NetworkType
+  recipients?: string[] // A single mint goes to the first recipient
+  creators?: CreatorShare[]
+  symbol?: string
+  isMutable?: boolean
+  updateAuthority?: string
+  tokenStandard?: NftTokenStandard
+  ruleSet?: string
+  program?: NftProgram // Token Metadata or Core
+  freezable?: boolean
+  soulbound?: boolean
+  collectionMint?: string // Existing collection to mint into
+  concurrency?: number
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onProgress?: (message: string, completed: number, total: number) => void
+}
+
+export interface DryRunItem {
+  label: string
+  computeUnits?: number
+  feeLamports: number // Base and priority fees
+  rentLamports: number // Rent deposited into the accounts the transaction creates
+  error?: string
+  logs?: string[] // Program logs of a failed simulation
+  note?: string
+}
+
+export interface DryRunReport {
+  items: DryRunItem[]
+  totalFees: number
+  totalRent: number
+  failed: number
+  balance: number
 }
 
+export interface VerifyMintsOptions {
+  items: Array<{ result: EnhancedMintResult; expected: MintExpectation }>
+  network: NetworkType
+  program?: NftProgram // Defaults to token-metadata
+  concurrency?: number
+  onProgress?: (message: string, completed: number, total: number) => void
+}
+
+// Nothing is uploaded for a dry run, so transactions are sized for a typical gateway URI instead
+const DRY_RUN_URI = `${CONFIG.PINATA.gateway}/${"x".repeat(59)}`
+
 // Helper function to get transaction URL based on network
 const getTransactionUrl = (signature: string, network: string): string => {
   switch (network) {
@@ -161,33 +501,45 @@ class EnhancedMetaplexService {
 
   async estimateMintingCost(
     network: NetworkType,
-    mintType: "single" | "collection", // Remove "editions"
+    mintType: "single" | "collection" | "editions" | "compressed",
     quantity = 1,
+    includeParentNft = false, // The collection NFT or master edition still has to be created
+
+    priorityFee: PriorityFeeStrategy = { type: "none" },
+    tokenStandard: NftTokenStandard = "NonFungible",
+    includeMerkleTree = false, // A new tree sized to the quantity has to be created for compressed NFTs
+    program: NftProgram = "token-metadata",
   ): Promise<number> {
     try {
-      const connection = this.getConnection(network)
-      const mintRent = await connection.getMinimumBalanceForRentExemption(82)
-      const metadataRent = await connection.getMinimumBalanceForRentExemption(679)
-      const ataRent = await connection.getMinimumBalanceForRentExemption(165)
-      const transactionFees = 5000 * 2 // Base fee per transaction (rough estimate)
-      let totalCost = 0
-
-      switch (mintType) {
-        case "single":
-          totalCost = mintRent + metadataRent + ataRent + transactionFees
-          break
-        case "collection":
-          // Cost per NFT + transaction fee per NFT (since they are minted individually)
-          totalCost = (mintRent + metadataRent + ataRent + transactionFees) * quantity
-          break
-      }
-      return totalCost
+      const { microLamports } = await this.estimatePriorityFee(network, priorityFee)
+      const estimate = await costModel.estimateMint(network, {
+        mintType,
+        quantity,
+        includeParentNft,
+        includeMerkleTree,
+        tokenStandard,
+        program,
+        priorityFeeMicroLamports: microLamports,
+      })
+      return estimate.total
     } catch (error) {
       console.error("Failed to estimate cost:", error)
       return 0.01 * LAMPORTS_PER_SOL * quantity
     }
   }
 
+  // Priority fee per mint transaction, assuming a typical compute-unit limit since nothing is simulated yet
+  async estimatePriorityFee(
+    network: NetworkType,
+    priorityFee: PriorityFeeStrategy = { type: "none" },
+  ): Promise<{ microLamports: number; lamportsPerMint: number }> {
+    const microLamports = await resolvePriorityFee(this.getConnection(network), priorityFee)
+    return {
+      microLamports,
+      lamportsPerMint: getPriorityFeeLamports(microLamports, CONFIG.PRIORITY_FEES.estimatedUnitsPerMint),
+    }
+  }
+
   private async checkWalletBalance(
     connection: Connection,
     walletPublicKey: PublicKey,
@@ -206,18 +558,48 @@ class EnhancedMetaplexService {
   }
 
   async mintSingleNFT(options: SingleMintOptions): Promise<EnhancedMintResult> {
-    const { name, description, imageUri, metadataUri, royalty, wallet, network, recipientAddress, onProgress } = options
+    const {
+      name,
+      description,
+      imageUri,
+      metadataUri,
+      royalty,
+      wallet,
+      network,
+      recipientAddress,
+      creators,
+      symbol = "NFT",
+      isMutable = true,
+      updateAuthority,
+      tokenStandard = "NonFungible",
+      ruleSet,
+      program = "token-metadata",
+      freezable = false,
+      soulbound = false,
+      priorityFee,
+      onProgress,
+    } = options
     if (!wallet.publicKey) throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
 
     try {
       onProgress?.("Setting up Metaplex UMI...")
       const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
         .use(mplTokenMetadata())
+        .use(mplCore())
         .use(walletAdapterIdentity(wallet))
 
       onProgress?.("Checking wallet balance...")
       const connection = this.getConnection(network)
-      const estimatedCost = await this.estimateMintingCost(network, "single")
+      const estimatedCost = await this.estimateMintingCost(
+        network,
+        "single",
+        1,
+        false,
+        priorityFee,
+        tokenStandard,
+        false,
+        program,
+      )
       const balanceCheck = await this.checkWalletBalance(connection, wallet.publicKey, estimatedCost, network)
 
       if (!balanceCheck.sufficient) {
@@ -244,32 +626,50 @@ class EnhancedMetaplexService {
         }
       }
 
-      const result = await createNft(umi, {
-        mint,
-        name,
-        uri: metadataUri,
-        sellerFeeBasisPoints: percentAmount(royalty / 100),
-        creators: [{ address: umi.identity.publicKey, verified: true, share: 100 }],
-        isMutable: true,
-        symbol: "NFT",
-        tokenStandard: TokenStandard.NonFungible,
-        tokenOwner: recipientUmiPk,
-      }).sendAndConfirm(umi, {
-        confirm: {
-          commitment: "confirmed",
-          strategy: { type: "blockhash", blockhash: await umi.rpc.getLatestBlockhash() },
-        },
-        send: { skipPreflight: false, maxRetries: 3 },
-      })
+      const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
+      const { builder } = await withComputeBudget(
+        umi,
+        program === "core"
+          ? this.buildCreateCoreAsset(umi, {
+              asset: mint,
+              name,
+              uri: metadataUri,
+              owner: recipientUmiPk,
+              updateAuthority,
+              royalty,
+              creators,
+              isMutable,
+              freezable,
+              soulbound,
+            })
+          : this.buildCreateNft(umi, tokenStandard, ruleSet, {
+              mint,
+              name,
+              uri: metadataUri,
+              sellerFeeBasisPoints: percentAmount(royalty / 100),
+              creators: this.buildCreators(umi, creators),
+              isMutable,
+              symbol,
+              ...(updateAuthority && { updateAuthority: this.convertToUmiPublicKey(updateAuthority) }),
+              tokenOwner: recipientUmiPk,
+            }),
+        priorityFeeMicroLamports,
+      )
+
+      const signature = await this.sendTracked(umi, builder, await umi.rpc.getLatestBlockhash())
 
       onProgress?.("NFT created successfully!")
+      if (program === "core") {
+        return { ...this.buildCoreResult(mint.publicKey, signature, metadataUri, network), soulbound }
+      }
+
       const mintPublicKey = new PublicKey(mint.publicKey.toString())
       const tokenAccount = await getAssociatedTokenAddress(mintPublicKey, recipientSolanaPk)
       const [metadataAddressPda, _metadataBump] = findMetadataPda(umi, { mint: mint.publicKey })
 
       // Format the signature properly
-      const formattedSignature = this.formatSignature(result.signature)
-      console.log("Raw signature:", result.signature)
+      const formattedSignature = this.formatSignature(signature)
+      console.log("Raw signature:", signature)
       console.log("Formatted signature:", formattedSignature)
 
       return {
@@ -278,6 +678,9 @@ class EnhancedMetaplexService {
         explorerUrl: this.createExplorerUrl(formattedSignature, network, "tx"),
         metadataAddress: metadataAddressPda.toString(),
         tokenAccount: tokenAccount.toString(),
+        ...(tokenStandard === "ProgrammableNonFungible" && {
+          tokenRecord: this.getTokenRecordAddress(umi, mint.publicKey, tokenAccount),
+        }),
         metadataUri,
       }
     } catch (error) {
@@ -286,9 +689,325 @@ class EnhancedMetaplexService {
     }
   }
 
+  // Programmable NFTs need a token record derived from the recipient's token account, so derive both
+  // explicitly from tokenOwner rather than relying on the identity defaults
+  private buildCreateNft(
+    umi: Umi,
+    tokenStandard: NftTokenStandard,
+    ruleSet: string | undefined,
+    input: Parameters<typeof createNft>[1] & { mint: KeypairSigner; tokenOwner?: UmiPublicKey },
+  ) {
+    if (tokenStandard !== "ProgrammableNonFungible") {
+      return createNft(umi, input)
+    }
+
+    const mint = input.mint.publicKey
+    const [token] = findAssociatedTokenPda(umi, { mint, owner: input.tokenOwner ?? umi.identity.publicKey })
+
+    return createProgrammableNft(umi, {
+      ...input,
+      token,
+      tokenRecord: findTokenRecordPda(umi, { mint, token }),
+      ...(ruleSet && { ruleSet: this.convertToUmiPublicKey(ruleSet) }),
+    })
+  }
+
+  private getTokenRecordAddress(umi: Umi, mint: UmiPublicKey, tokenAccount: PublicKey): string {
+    const [tokenRecord] = findTokenRecordPda(umi, { mint, token: publicKey(tokenAccount.toString()) })
+    return tokenRecord.toString()
+  }
+
+  // Only the connected wallet signs the mint, so every other creator is left unverified
+  private buildCreators(umi: Umi, creators?: CreatorShare[]) {
+    if (!creators || creators.length === 0) {
+      return [{ address: umi.identity.publicKey, verified: true, share: 100 }]
+    }
+
+    return creators.map((creator) => {
+      const address = this.convertToUmiPublicKey(creator.address)
+      return { address, verified: address === umi.identity.publicKey, share: creator.share }
+    })
+  }
+
+  // Reuse an existing collection NFT, making sure the connected wallet can verify items against it
+  private async resolveExistingCollection(umi: Umi, address: string): Promise<UmiPublicKey> {
+    const validation = this.validateAndConvertAddress(address)
+    if (!validation.isValid || !validation.umiKey) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `Invalid collection address: ${address}`)
+    }
+
+    const collectionMetadata = await safeFetchMetadataFromSeeds(umi, { mint: validation.umiKey })
+    if (!collectionMetadata) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `No collection NFT found at ${address}`)
+    }
+    if (collectionMetadata.updateAuthority !== umi.identity.publicKey) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Connected wallet is not the update authority of this collection and cannot verify NFTs into it",
+      )
+    }
+
+    return validation.umiKey
+  }
+
+  // Create a sized collection NFT owned by the connected wallet
+  private async createCollectionNft(
+    umi: Umi,
+    {
+      name,
+      metadataUri,
+      royalty,
+      creators,
+      symbol,
+      priorityFeeMicroLamports,
+    }: {
+      name: string
+      metadataUri: string
+      royalty: number
+      creators?: CreatorShare[]
+      symbol: string
+      priorityFeeMicroLamports: number
+    },
+  ): Promise<UmiPublicKey> {
+    const collectionMint = generateSigner(umi)
+
+    const { builder } = await withComputeBudget(
+      umi,
+      this.buildCreateCollectionNft(umi, collectionMint, { name, metadataUri, royalty, creators, symbol }),
+      priorityFeeMicroLamports,
+    )
+
+    await this.sendTracked(umi, builder, await umi.rpc.getLatestBlockhash())
+
+    return collectionMint.publicKey
+  }
+
+  private buildCreateCollectionNft(
+    umi: Umi,
+    collectionMint: KeypairSigner,
+    {
+      name,
+      metadataUri,
+      royalty,
+      creators,
+      symbol,
+    }: { name: string; metadataUri: string; royalty: number; creators?: CreatorShare[]; symbol: string },
+  ): TransactionBuilder {
+    return createNft(umi, {
+      mint: collectionMint,
+      name,
+      uri: metadataUri,
+      sellerFeeBasisPoints: percentAmount(royalty / 100),
+      creators: this.buildCreators(umi, creators),
+      isMutable: true,
+      symbol,
+      isCollection: true,
+    })
+  }
+
+  // Core assets carry their own royalties unless they belong to a collection, which enforces them for
+  // every asset in it. Immutable assets get the ImmutableMetadata plugin since Core has no mutable flag.
+  private buildCreateCoreAsset(
+    umi: Umi,
+    {
+      asset,
+      name,
+      uri,
+      owner,
+      updateAuthority,
+      collection,
+      royalty,
+      creators,
+      isMutable,
+      freezable,
+      soulbound = false,
+    }: {
+      asset: KeypairSigner
+      name: string
+      uri: string
+      owner: UmiPublicKey
+      updateAuthority?: string
+      collection?: Awaited<ReturnType<typeof fetchCollection>>
+      royalty: number
+      creators?: CreatorShare[]
+      isMutable: boolean
+      freezable: boolean
+      soulbound?: boolean
+    },
+  ): TransactionBuilder {
+    const plugins: CreateArgsPlugin[] = []
+    if (!collection) plugins.push(this.buildCoreRoyalties(umi, royalty, creators))
+    // The update authority holds the freeze delegate either way, and can thaw a soulbound asset if needed
+    if (freezable || soulbound) plugins.push({ type: "PermanentFreezeDelegate", frozen: soulbound })
+    if (!isMutable) plugins.push({ type: "ImmutableMetadata" })
+
+    return createAsset(umi, {
+      asset,
+      name,
+      uri,
+      owner,
+      plugins,
+      // Assets in a collection are governed by the collection's update authority
+      ...(collection
+        ? { collection }
+        : updateAuthority && { updateAuthority: this.convertToUmiPublicKey(updateAuthority) }),
+    })
+  }
+
+  private buildCoreRoyalties(umi: Umi, royalty: number, creators?: CreatorShare[]) {
+    const shares =
+      creators && creators.length > 0
+        ? creators.map((creator) => ({
+            address: this.convertToUmiPublicKey(creator.address),
+            percentage: creator.share,
+          }))
+        : [{ address: umi.identity.publicKey, percentage: 100 }]
+
+    return { type: "Royalties" as const, basisPoints: royalty, creators: shares, ruleSet: { type: "None" as const } }
+  }
+
+  // A Core asset is its own mint, metadata and token account, so every address points at the asset
+  private buildCoreResult(
+    asset: UmiPublicKey,
+    signature: TransactionSignature,
+    metadataUri: string,
+    network: NetworkType,
+  ): EnhancedMintResult {
+    const formattedSignature = this.formatSignature(signature)
+    return {
+      mintAddress: asset.toString(),
+      signature: formattedSignature,
+      explorerUrl: this.createExplorerUrl(formattedSignature, network, "tx"),
+      metadataAddress: asset.toString(),
+      tokenAccount: asset.toString(),
+      metadataUri,
+    }
+  }
+
+  // Reuse an existing Core collection, making sure the connected wallet can add assets to it
+  private async resolveExistingCoreCollection(umi: Umi, address: string): Promise<UmiPublicKey> {
+    const validation = this.validateAndConvertAddress(address)
+    if (!validation.isValid || !validation.umiKey) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `Invalid collection address: ${address}`)
+    }
+
+    const collection = await safeFetchCollectionV1(umi, validation.umiKey)
+    if (!collection) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `No Core collection found at ${address}`)
+    }
+    if (collection.updateAuthority !== umi.identity.publicKey) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Connected wallet is not the update authority of this collection and cannot add assets to it",
+      )
+    }
+
+    return validation.umiKey
+  }
+
+  // Create a Core collection owned by the connected wallet; its royalties apply to every asset in it
+  private async createCoreCollection(
+    umi: Umi,
+    {
+      name,
+      metadataUri,
+      royalty,
+      creators,
+      priorityFeeMicroLamports,
+    }: {
+      name: string
+      metadataUri: string
+      royalty: number
+      creators?: CreatorShare[]
+      priorityFeeMicroLamports: number
+    },
+  ): Promise<UmiPublicKey> {
+    const collection = generateSigner(umi)
+
+    const { builder } = await withComputeBudget(
+      umi,
+      this.buildCreateCoreCollection(umi, collection, { name, metadataUri, royalty, creators }),
+      priorityFeeMicroLamports,
+    )
+
+    await this.sendTracked(umi, builder, await umi.rpc.getLatestBlockhash())
+
+    return collection.publicKey
+  }
+
+  private buildCreateCoreCollection(
+    umi: Umi,
+    collection: KeypairSigner,
+    {
+      name,
+      metadataUri,
+      royalty,
+      creators,
+    }: { name: string; metadataUri: string; royalty: number; creators?: CreatorShare[] },
+  ): TransactionBuilder {
+    return createCollection(umi, {
+      collection,
+      name,
+      uri: metadataUri,
+      plugins: [this.buildCoreRoyalties(umi, royalty, creators)],
+    })
+  }
+
+  // Transfer the collection NFT to its configured update authority once the minting wallet is done with it
+  private async handOffCollection(
+    umi: Umi,
+    collectionMint: UmiPublicKey,
+    updateAuthority: string,
+    priorityFeeMicroLamports: number,
+    program: NftProgram = "token-metadata",
+  ): Promise<void> {
+    const newUpdateAuthority = this.convertToUmiPublicKey(updateAuthority)
+
+    let handOff: TransactionBuilder
+    if (program === "core") {
+      const collection = await safeFetchCollectionV1(umi, collectionMint)
+      if (!collection || collection.updateAuthority === newUpdateAuthority) return
+      handOff = updateCollection(umi, { collection: collectionMint, newUpdateAuthority })
+    } else {
+      const collectionMetadata = await safeFetchMetadataFromSeeds(umi, { mint: collectionMint })
+      if (!collectionMetadata || collectionMetadata.updateAuthority === newUpdateAuthority) return
+      handOff = updateV1(umi, { mint: collectionMint, authority: umi.identity, newUpdateAuthority })
+    }
+
+    const { builder } = await withComputeBudget(umi, handOff, priorityFeeMicroLamports)
+
+    await this.sendTracked(umi, builder, await umi.rpc.getLatestBlockhash())
+  }
+
   async mintCollection(options: CollectionMintOptions): Promise<BatchMintResult> {
-    const { collectionName, description, imageUris, metadataUris, royalty, wallet, network, recipients, onProgress } =
-      options
+    const {
+      collectionName,
+      description,
+      imageUris,
+      metadataUris,
+      royalty,
+      wallet,
+      network,
+      recipients,
+      collectionMint: existingCollectionMint,
+      collectionMetadataUri,
+      completedResults = [],
+      pendingAttempts = [],
+      creators,
+      symbol = "NFT",
+      isMutable = true,
+      updateAuthority,
+      tokenStandard = "NonFungible",
+      ruleSet,
+      program = "token-metadata",
+      freezable = false,
+      soulbound = false,
+      priorityFee,
+      onCollectionReady,
+      onItemSigned,
+      onItemMinted,
+      onProgress,
+    } = options
 
     if (!wallet.publicKey) {
       throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
@@ -296,23 +1015,40 @@ class EnhancedMetaplexService {
     if (imageUris.length !== metadataUris.length) {
       throw createError(ERROR_CODES.VALIDATION_ERROR, "Image and metadata counts must match")
     }
+    if (!existingCollectionMint && !collectionMetadataUri) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Collection metadata URI is required to create a new collection")
+    }
 
     try {
       const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
         .use(mplTokenMetadata())
+        .use(mplCore())
         .use(walletAdapterIdentity(wallet))
 
       const totalNFTs = imageUris.length
       const connection = this.getConnection(network)
+      const completedIndices = new Set(completedResults.map((result) => result.index))
+      const pendingIndices = Array.from({ length: totalNFTs }, (_, i) => i).filter((i) => !completedIndices.has(i))
+
+      // Resolved once so every transaction in the batch pays the same price
+      const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
 
       // Initial balance check
-      const estimatedCost = await this.estimateMintingCost(network, "collection", totalNFTs)
+      const estimate = await costModel.estimateMint(network, {
+        mintType: "collection",
+        quantity: pendingIndices.length,
+        includeParentNft: !existingCollectionMint,
+        tokenStandard,
+        program,
+        priorityFeeMicroLamports,
+      })
+      const estimatedCost = estimate.total
       const initialBalanceCheck = await this.checkWalletBalance(connection, wallet.publicKey, estimatedCost, network)
 
       if (!initialBalanceCheck.sufficient) {
         throw createError(
           ERROR_CODES.INSUFFICIENT_FUNDS,
-          `Insufficient funds for ${totalNFTs} NFTs. Need ${(estimatedCost / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}, but only have ${(initialBalanceCheck.balance / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}. Please add ${(initialBalanceCheck.shortfall / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"} to your wallet.`,
+          `Insufficient funds for ${pendingIndices.length} NFTs. Need ${(estimatedCost / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}, but only have ${(initialBalanceCheck.balance / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}. Please add ${(initialBalanceCheck.shortfall / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"} to your wallet.`,
         )
       }
 
@@ -344,24 +1080,123 @@ class EnhancedMetaplexService {
         }
       }
 
-      onProgress?.("Creating NFTs one by one...", 0, totalNFTs)
-
-      const results: EnhancedMintResult[] = []
-      let successfulMints = 0
-      let insufficientFundsDetected = false
+      let collectionMint: UmiPublicKey
+      if (existingCollectionMint) {
+        onProgress?.("Checking existing collection...", 0, totalNFTs)
+        collectionMint =
+          program === "core"
+            ? await this.resolveExistingCoreCollection(umi, existingCollectionMint)
+            : await this.resolveExistingCollection(umi, existingCollectionMint)
+      } else if (program === "core") {
+        onProgress?.("Creating Core collection...", 0, totalNFTs)
+        collectionMint = await this.createCoreCollection(umi, {
+          name: collectionName,
+          metadataUri: collectionMetadataUri!,
+          royalty,
+          creators,
+          priorityFeeMicroLamports,
+        })
+      } else {
+        onProgress?.("Creating collection NFT...", 0, totalNFTs)
+        collectionMint = await this.createCollectionNft(umi, {
+          name: collectionName,
+          metadataUri: collectionMetadataUri!,
+          royalty,
+          creators,
+          symbol,
+          priorityFeeMicroLamports,
+        })
+      }
+      console.log("Minting into collection:", collectionMint.toString())
+      onCollectionReady?.(collectionMint.toString())
+
+      // Core assets are created against the collection account itself
+      const coreCollection = program === "core" ? await fetchCollection(umi, collectionMint) : undefined
+
+      const concurrency = Math.min(
+        Math.max(1, options.concurrency ?? CONFIG.MINTING.defaultConcurrency),
+        CONFIG.MINTING.maxConcurrency,
+      )
+      const maxRetries = options.maxRetries ?? CONFIG.MINTING.maxRetries
+      const blockhashCache = new BlockhashCache(() => umi.rpc.getLatestBlockhash())
+      const costPerNFT = estimate.perItem
       let finalBalance = initialBalanceCheck.balance
 
-      for (let i = 0; i < totalNFTs; i++) {
-        let retryCount = 0
-        const maxRetries = 3
-        let lastError: any = null
+      // The mint signer and last signature for each item, kept across retries so an attempt that
+      // landed but timed out while confirming is detected instead of minted a second time
+      const attempts = new Map<number, { mintSigner: KeypairSigner; signature?: TransactionSignature }>()
+      // Where each item's latest transaction ended up, reported alongside its pipeline status
+      const confirmations = new ConfirmationLog((status, completed) =>
+        onProgress?.(
+          this.describeItemStatus(status, totalNFTs),
+          completedResults.length + completed,
+          totalNFTs,
+          status,
+        ),
+      )
+
+      if (completedResults.length > 0) {
+        onProgress?.(
+          `Resuming: ${completedResults.length} of ${totalNFTs} NFTs already minted`,
+          completedResults.length,
+          totalNFTs,
+        )
+      }
+      onProgress?.(`Creating NFTs (${concurrency} at a time)...`, completedResults.length, totalNFTs)
+
+      const completeItem = async (
+        i: number,
+        mint: UmiPublicKey,
+        signature: TransactionSignature,
+        recovered: boolean,
+      ) => {
+        const recipientInfo = validatedRecipients[i]
+
+        if (program === "core") {
+          const mintResult: EnhancedMintResult = {
+            ...this.buildCoreResult(mint, signature, metadataUris[i], network),
+            index: i,
+            ...(recovered && { recovered }),
+            ...(soulbound && { soulbound }),
+          }
+          onItemMinted?.(i, mintResult)
+          return mintResult
+        }
+
+        // Use the validated Solana PublicKey for token account calculation
+        const mintPublicKey = new PublicKey(mint.toString())
+        const tokenAccount = await getAssociatedTokenAddress(mintPublicKey, recipientInfo.solanaKey)
+        const [metadataAddressPda, _] = findMetadataPda(umi, { mint })
+
+        // Format the signature properly
+        const formattedSignature = this.formatSignature(signature)
+
+        const mintResult: EnhancedMintResult = {
+          mintAddress: mint.toString(),
+          signature: formattedSignature,
+          explorerUrl: this.createExplorerUrl(formattedSignature, network, "tx"),
+          metadataAddress: metadataAddressPda.toString(),
+          tokenAccount: tokenAccount.toString(),
+          ...(tokenStandard === "ProgrammableNonFungible" && {
+            tokenRecord: this.getTokenRecordAddress(umi, mint, tokenAccount),
+          }),
+          metadataUri: metadataUris[i],
+          index: i,
+          ...(recovered && { recovered }),
+        }
+        onItemMinted?.(i, mintResult)
+        return mintResult
+      }
 
-        // Check balance before each NFT (after the first few)
-        if (i > 0 && i % 2 === 0) {
-          const currentBalance = await connection.getBalance(wallet.publicKey)
-          const costPerNFT = await this.estimateMintingCost(network, "single")
-          const remainingNFTs = totalNFTs - i
-          const estimatedRemainingCost = costPerNFT * remainingNFTs
+      // Builds an item's mint transaction, or completes the item straight away when a previous attempt landed
+      const prepareItem = async (
+        i: number,
+        attempt: number,
+      ): Promise<{ builder: TransactionBuilder } | { result: EnhancedMintResult }> => {
+        // Periodically check the wallet can still cover the rest of the batch
+        if (attempt === 0 && i > 0 && i % concurrency === 0) {
+          const currentBalance = await connection.getBalance(wallet.publicKey!)
+          const estimatedRemainingCost = costPerNFT * pendingIndices.filter((pending) => pending >= i).length
 
           if (currentBalance < estimatedRemainingCost) {
             console.warn(
@@ -369,149 +1204,234 @@ class EnhancedMetaplexService {
             )
             onProgress?.(
               `⚠️ Low balance detected. May not be able to mint all remaining NFTs. Current: ${(currentBalance / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}`,
-              successfulMints,
+              i,
               totalNFTs,
             )
           }
         }
 
-        while (retryCount <= maxRetries) {
-          try {
-            onProgress?.(
-              `Creating NFT ${i + 1} of ${totalNFTs}${retryCount > 0 ? ` (retry ${retryCount})` : ""}...`,
-              i,
-              totalNFTs,
+        // A transaction signed by an earlier run of this job may have landed after that run went away
+        const savedAttempt = attempt === 0 ? pendingAttempts.find((pending) => pending.index === i) : undefined
+        if (savedAttempt) {
+          const landedSignature = await this.findSavedAttempt(umi, connection, savedAttempt)
+          if (landedSignature) {
+            console.log(`NFT ${i + 1} landed during a previous run, skipping:`, savedAttempt.mintAddress)
+            confirmations.set(i, "confirmed")
+            return {
+              result: await completeItem(i, publicKey(savedAttempt.mintAddress), landedSignature, true),
+            }
+          }
+        }
+
+        const previousAttempt = attempts.get(i)
+        const mintSigner = previousAttempt?.mintSigner ?? generateSigner(umi)
+        const recipientInfo = validatedRecipients[i]
+
+        if (previousAttempt) {
+          const landedSignature = await this.findLandedAttempt(umi, mintSigner.publicKey, previousAttempt.signature)
+          if (landedSignature) {
+            console.log(
+              `NFT ${i + 1} landed during attempt ${attempt}, skipping retry:`,
+              mintSigner.publicKey.toString(),
             )
+            confirmations.set(i, "confirmed")
+            return { result: await completeItem(i, mintSigner.publicKey, landedSignature, true) }
+          }
+        } else {
+          attempts.set(i, { mintSigner })
+        }
 
-            const mintSigner = generateSigner(umi)
-            const recipientInfo = validatedRecipients[i]
+        console.log(`Creating NFT ${i + 1} (attempt ${attempt + 1}):`, {
+          name: `${collectionName} #${i + 1}`,
+          metadataUri: metadataUris[i],
+          recipientUmi: recipientInfo.umiKey.toString(),
+          recipientSolana: recipientInfo.solanaKey.toString(),
+        })
 
-            console.log(`Creating NFT ${i + 1} (attempt ${retryCount + 1}):`, {
+        const mintBuilder = coreCollection
+          ? this.buildCreateCoreAsset(umi, {
+              asset: mintSigner,
               name: `${collectionName} #${i + 1}`,
-              metadataUri: metadataUris[i],
-              recipientUmi: recipientInfo.umiKey.toString(),
-              recipientSolana: recipientInfo.solanaKey.toString(),
+              uri: metadataUris[i],
+              owner: recipientInfo.umiKey,
+              collection: coreCollection,
+              royalty,
+              creators,
+              isMutable,
+              freezable,
+              soulbound,
             })
-
-            const result = await createNft(umi, {
+          : this.buildCreateNft(umi, tokenStandard, ruleSet, {
               mint: mintSigner,
               name: `${collectionName} #${i + 1}`,
               uri: metadataUris[i],
               sellerFeeBasisPoints: percentAmount(royalty / 100),
-              creators: [{ address: umi.identity.publicKey, verified: true, share: 100 }],
-              isMutable: true,
-              symbol: "NFT",
-              tokenStandard: TokenStandard.NonFungible,
+              creators: this.buildCreators(umi, creators),
+              isMutable,
+              symbol,
+              ...(updateAuthority && { updateAuthority: this.convertToUmiPublicKey(updateAuthority) }),
+              collection: { key: collectionMint, verified: false },
               tokenOwner: recipientInfo.umiKey,
-            }).sendAndConfirm(umi, {
-              confirm: {
-                commitment: "confirmed",
-                strategy: { type: "blockhash", blockhash: await umi.rpc.getLatestBlockhash() },
-              },
-              send: { skipPreflight: false, maxRetries: 3 },
-            })
-
-            console.log(`NFT ${i + 1} created successfully. Raw signature:`, result.signature)
-
-            // Use the validated Solana PublicKey for token account calculation
-            const mintPublicKey = new PublicKey(mintSigner.publicKey.toString())
-            const tokenAccount = await getAssociatedTokenAddress(mintPublicKey, recipientInfo.solanaKey)
-            const [metadataAddressPda, _] = findMetadataPda(umi, { mint: mintSigner.publicKey })
-
-            // Format the signature properly
-            const formattedSignature = this.formatSignature(result.signature)
-            console.log(`NFT ${i + 1} formatted signature:`, formattedSignature)
-
-            results.push({
-              mintAddress: mintSigner.publicKey.toString(),
-              signature: formattedSignature,
-              explorerUrl: this.createExplorerUrl(formattedSignature, network, "tx"),
-              metadataAddress: metadataAddressPda.toString(),
-              tokenAccount: tokenAccount.toString(),
-              metadataUri: metadataUris[i],
-            })
-
-            successfulMints++
-            break // Success, exit retry loop
-          } catch (error) {
-            lastError = error
-            retryCount++
+            }).add(
+              verifyCollectionV1(umi, {
+                metadata: findMetadataPda(umi, { mint: mintSigner.publicKey }),
+                collectionMint,
+                authority: umi.identity,
+              }),
+            )
+        const { builder } = await withComputeBudget(umi, mintBuilder, priorityFeeMicroLamports)
+        return { builder }
+      }
 
-            // Check if this is an insufficient funds error
-            const errorMessage = error instanceof Error ? error.message : String(error)
-            if (errorMessage.includes("insufficient lamports") || errorMessage.includes("Insufficient funds")) {
-              insufficientFundsDetected = true
-              finalBalance = await connection.getBalance(wallet.publicKey)
+      // Remembers the item's signature for retries and hands it to the caller before the transaction goes out
+      const recordAttempt = async (
+        i: number,
+        signature: TransactionSignature,
+        blockhash: BlockhashWithExpiryBlockHeight,
+      ) => {
+        const { mintSigner } = attempts.get(i)!
+        attempts.set(i, { mintSigner, signature })
+        await onItemSigned?.({
+          index: i,
+          mintAddress: mintSigner.publicKey.toString(),
+          signature: bs58.encode(signature),
+          lastValidBlockHeight: blockhash.lastValidBlockHeight,
+        })
+      }
 
-              console.error(`Insufficient funds detected at NFT ${i + 1}:`, {
-                error: errorMessage,
-                currentBalance: (finalBalance / LAMPORTS_PER_SOL).toFixed(4),
-                successfulMints,
-                remainingNFTs: totalNFTs - i,
-              })
+      const logMintError = (i: number, error: unknown, attempt?: number) => {
+        console.error(`Failed to create NFT ${i + 1}${attempt !== undefined ? ` (attempt ${attempt + 1})` : ""}:`, {
+          error: error,
+          errorMessage: error instanceof Error ? error.message : String(error),
+          errorName: error instanceof Error ? error.name : "Unknown",
+          errorCause: (error as any)?.cause,
+          errorCode: (error as any)?.code,
+        })
+      }
 
+      // Don't retry insufficient funds errors, and don't start any more NFTs either
+      const isFatalError = (error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return errorMessage.includes("insufficient lamports") || errorMessage.includes("Insufficient funds")
+      }
+      const onStatus = confirmations.report
+
+      // Wallets that can sign a batch approve a whole chunk of NFTs in one prompt instead of one per NFT
+      const pipeline = this.supportsSignAll(wallet)
+        ? await runSignedBatches(pendingIndices, {
+            concurrency,
+            maxRetries,
+            isFatalError,
+            onStatus,
+            getBlockhash: async () => {
+              const blockhash = await umi.rpc.getLatestBlockhash()
+              const blockHeight = await connection.getBlockHeight("confirmed")
+              return { blockhash, blocksLeft: blockhash.lastValidBlockHeight - blockHeight }
+            },
+            prepare: async (i, attempt) => {
+              try {
+                const item = await prepareItem(i, attempt)
+                return "result" in item ? item : { prepared: item.builder }
+              } catch (error) {
+                logMintError(i, error, attempt)
+                throw error
+              }
+            },
+            signAll: (builders, blockhash) => {
               onProgress?.(
-                `💰 Insufficient funds at NFT ${i + 1}. Could mint ${successfulMints}/${totalNFTs}. Balance: ${(finalBalance / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}`,
-                successfulMints,
+                `Waiting for wallet approval of ${builders.length} NFTs...`,
+                completedResults.length,
                 totalNFTs,
               )
+              return signAllTransactions(
+                builders.map((builder) => ({
+                  transaction: builder.setBlockhash(blockhash).build(umi),
+                  signers: builder.getSigners(umi),
+                })),
+              )
+            },
+            send: async (i, transaction, blockhash) => {
+              const signature = transaction.signatures[0]
+              try {
+                await recordAttempt(i, signature, blockhash)
+                await this.sendAndConfirm(umi, transaction, blockhash, (state) => confirmations.set(i, state))
+              } catch (error) {
+                logMintError(i, error)
+                throw error
+              }
+              console.log(`NFT ${i + 1} created successfully. Raw signature:`, signature)
+              return completeItem(i, attempts.get(i)!.mintSigner.publicKey, signature, false)
+            },
+          })
+        : await runPipeline(
+            pendingIndices,
+            async (i, attempt) => {
+              const item = await prepareItem(i, attempt)
+              if ("result" in item) return item.result
+
+              try {
+                const blockhash = await blockhashCache.get()
+                const signature = await this.sendTracked(
+                  umi,
+                  item.builder,
+                  blockhash,
+                  (signature) => recordAttempt(i, signature, blockhash),
+                  (state) => confirmations.set(i, state),
+                )
+                console.log(`NFT ${i + 1} created successfully. Raw signature:`, signature)
+                return completeItem(i, attempts.get(i)!.mintSigner.publicKey, signature, false)
+              } catch (error) {
+                // A stale shared blockhash fails every in-flight transaction, so force a refresh
+                if (isBlockhashError(error)) {
+                  blockhashCache.invalidate()
+                }
+                logMintError(i, error, attempt)
+                throw error
+              }
+            },
+            { concurrency, maxRetries, isFatalError, onStatus },
+          )
 
-              // Don't retry insufficient funds errors, move to next NFT
-              break
-            }
+      const results = [
+        ...completedResults,
+        ...pipeline.results.filter((result): result is EnhancedMintResult => !!result),
+      ].sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      const successfulMints = results.length
+      const recoveredMints = results.filter((result) => result.recovered).length
+      const insufficientFundsDetected = pipeline.stopReason === "fatal"
+      const signingRejected = pipeline.stopReason === "rejected"
 
-            // Detailed error logging for other errors
-            console.error(`Failed to create NFT ${i + 1} (attempt ${retryCount}):`, {
-              error: error,
-              errorMessage: errorMessage,
-              errorName: error instanceof Error ? error.name : "Unknown",
-              errorStack: error instanceof Error ? error.stack : undefined,
-              errorCause: (error as any)?.cause,
-              errorCode: (error as any)?.code,
-              errorDetails: (error as any)?.details,
-              fullErrorObject: JSON.stringify(error, Object.getOwnPropertyNames(error)),
-            })
+      // Get final balance
+      finalBalance = await connection.getBalance(wallet.publicKey)
 
-            if (retryCount <= maxRetries) {
-              const waitTime = retryCount * 2000 // Exponential backoff
-              console.log(`Retrying NFT ${i + 1} in ${waitTime}ms...`)
-              onProgress?.(
-                `NFT ${i + 1} failed, retrying in ${waitTime / 1000}s... (${errorMessage})`,
-                successfulMints,
-                totalNFTs,
-              )
-              await new Promise((resolve) => setTimeout(resolve, waitTime))
-            } else {
-              // All retries exhausted
-              console.error(`All retries exhausted for NFT ${i + 1}. Final error:`, lastError)
-              onProgress?.(
-                `Failed to create NFT ${i + 1} after ${maxRetries} retries: ${errorMessage}`,
-                successfulMints,
-                totalNFTs,
-              )
-            }
-          }
-        }
+      if (insufficientFundsDetected) {
+        onProgress?.(
+          `⛔ Stopping collection minting due to insufficient funds. Successfully minted ${successfulMints}/${totalNFTs} NFTs. Balance: ${(finalBalance / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}`,
+          successfulMints,
+          totalNFTs,
+        )
+      }
+      if (signingRejected) {
+        onProgress?.(
+          `⏸️ Wallet approval was declined. Minted ${successfulMints}/${totalNFTs} NFTs; resume the job to mint the rest.`,
+          successfulMints,
+          totalNFTs,
+        )
+      }
 
-        // If insufficient funds detected, stop trying to mint more NFTs
-        if (insufficientFundsDetected && retryCount > maxRetries) {
+      if (updateAuthority) {
+        if (successfulMints === totalNFTs) {
+          onProgress?.("Transferring collection update authority...", successfulMints, totalNFTs)
+          await this.handOffCollection(umi, collectionMint, updateAuthority, priorityFeeMicroLamports, program)
+        } else {
           onProgress?.(
-            `⛔ Stopping collection minting due to insufficient funds. Successfully minted ${successfulMints}/${totalNFTs} NFTs.`,
+            "Collection update authority stays with this wallet until the remaining NFTs are minted",
             successfulMints,
             totalNFTs,
           )
-          break
-        }
-
-        // Add delay between different NFTs (not retries)
-        if (i < totalNFTs - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 1000))
         }
       }
 
-      // Get final balance
-      finalBalance = await connection.getBalance(wallet.publicKey)
-
       onProgress?.(`Collection minting complete!`, successfulMints, totalNFTs)
 
       return {
@@ -520,7 +1440,10 @@ class EnhancedMetaplexService {
         failed: totalNFTs - successfulMints,
         totalCost: estimatedCost,
         insufficientFunds: insufficientFundsDetected,
+        ...(signingRejected && { signingRejected }),
         remainingBalance: finalBalance,
+        collectionMint: collectionMint.toString(),
+        recovered: recoveredMints,
       }
     } catch (error) {
       console.error("Collection minting failed:", error)
@@ -528,6 +1451,1598 @@ class EnhancedMetaplexService {
     }
   }
 
+  // Make sure the connected wallet can print from an existing master edition and return its mint
+  private async resolveExistingMasterEdition(umi: Umi, address: string): Promise<UmiPublicKey> {
+    const validation = this.validateAndConvertAddress(address)
+    if (!validation.isValid || !validation.umiKey) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `Invalid master edition address: ${address}`)
+    }
+
+    const masterEdition = await safeFetchMasterEditionFromSeeds(umi, { mint: validation.umiKey })
+    if (!masterEdition) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `No master edition found for ${address}`)
+    }
+
+    // Only the holder of the master edition token can print from it
+    const [masterTokenAccount] = findAssociatedTokenPda(umi, { mint: validation.umiKey, owner: umi.identity.publicKey })
+    if (!(await umi.rpc.accountExists(masterTokenAccount))) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Connected wallet does not hold this master edition and cannot print from it",
+      )
+    }
+
+    return validation.umiKey
+  }
+
+  async mintEditions(options: EditionsMintOptions): Promise<BatchMintResult> {
+    const {
+      name,
+      metadataUri,
+      royalty,
+      wallet,
+      network,
+      masterEditionMint: existingMasterEditionMint,
+      maxSupply,
+      editionCount,
+      recipients,
+      creators,
+      symbol = "NFT",
+      isMutable = true,
+      updateAuthority,
+      tokenStandard = "NonFungible",
+      ruleSet,
+      priorityFee,
+      onProgress,
+    } = options
+
+    if (!wallet.publicKey) {
+      throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    }
+    if (!existingMasterEditionMint && (!maxSupply || !metadataUri)) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        "Max supply and metadata URI are required to create a master edition",
+      )
+    }
+
+    try {
+      const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+        .use(mplTokenMetadata())
+        .use(walletAdapterIdentity(wallet))
+      const connection = this.getConnection(network)
+
+      const estimatedCost = await this.estimateMintingCost(
+        network,
+        "editions",
+        editionCount,
+        !existingMasterEditionMint,
+        priorityFee,
+        tokenStandard,
+      )
+      const balanceCheck = await this.checkWalletBalance(connection, wallet.publicKey, estimatedCost, network)
+
+      if (!balanceCheck.sufficient) {
+        throw createError(
+          ERROR_CODES.INSUFFICIENT_FUNDS,
+          `Insufficient funds for ${editionCount} editions. Need ${(estimatedCost / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}, but only have ${(balanceCheck.balance / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}.`,
+        )
+      }
+
+      const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
+
+      let masterEditionMint: UmiPublicKey
+      let editionMetadataUri = metadataUri ?? ""
+      if (existingMasterEditionMint) {
+        onProgress?.("Checking existing master edition...", 0, editionCount)
+        masterEditionMint = await this.resolveExistingMasterEdition(umi, existingMasterEditionMint)
+        editionMetadataUri = (await fetchMetadataFromSeeds(umi, { mint: masterEditionMint })).uri
+      } else {
+        onProgress?.("Creating master edition...", 0, editionCount)
+        const masterMint = generateSigner(umi)
+        const { builder } = await withComputeBudget(
+          umi,
+          this.buildCreateNft(umi, tokenStandard, ruleSet, {
+            mint: masterMint,
+            name,
+            uri: editionMetadataUri,
+            sellerFeeBasisPoints: percentAmount(royalty / 100),
+            creators: this.buildCreators(umi, creators),
+            isMutable,
+            symbol,
+            ...(updateAuthority && { updateAuthority: this.convertToUmiPublicKey(updateAuthority) }),
+            printSupply: printSupply("Limited", [maxSupply!]),
+          }),
+          priorityFeeMicroLamports,
+        )
+        await this.sendTracked(umi, builder, await umi.rpc.getLatestBlockhash())
+        masterEditionMint = masterMint.publicKey
+      }
+      console.log("Printing from master edition:", masterEditionMint.toString())
+
+      // Edition numbers continue from the current supply so reruns never collide with earlier prints
+      const masterEdition = await fetchMasterEditionFromSeeds(umi, { mint: masterEditionMint })
+      const firstEdition = Number(masterEdition.supply) + 1
+      const maxEditions = isSome(masterEdition.maxSupply) ? Number(masterEdition.maxSupply.value) : null
+      if (maxEditions !== null && firstEdition - 1 + editionCount > maxEditions) {
+        throw createError(
+          ERROR_CODES.VALIDATION_ERROR,
+          `Only ${maxEditions - firstEdition + 1} of ${maxEditions} editions remain, cannot print ${editionCount}`,
+        )
+      }
+
+      const concurrency = Math.min(
+        Math.max(1, options.concurrency ?? CONFIG.MINTING.defaultConcurrency),
+        CONFIG.MINTING.maxConcurrency,
+      )
+      const blockhashCache = new BlockhashCache(() => umi.rpc.getLatestBlockhash())
+      const attempts = new Map<number, { editionMint: KeypairSigner; signature?: TransactionSignature }>()
+      const confirmations = new ConfirmationLog((status, completed) =>
+        onProgress?.(this.describeItemStatus(status, editionCount, "Edition"), completed, editionCount, status),
+      )
+
+      const printEdition = async (i: number, attempt: number): Promise<EnhancedMintResult> => {
+        const editionNumber = firstEdition + i
+        const recipient =
+          recipients?.[i] && this.validateAndConvertAddress(recipients[i]).isValid
+            ? this.convertToUmiPublicKey(recipients[i])
+            : umi.identity.publicKey
+
+        const previousAttempt = attempts.get(i)
+        const editionMint = previousAttempt?.editionMint ?? generateSigner(umi)
+        if (!previousAttempt) attempts.set(i, { editionMint })
+
+        const completeItem = (signature: TransactionSignature, recovered: boolean): EnhancedMintResult => {
+          const [token] = findAssociatedTokenPda(umi, { mint: editionMint.publicKey, owner: recipient })
+          const [metadataAddressPda] = findMetadataPda(umi, { mint: editionMint.publicKey })
+          const formattedSignature = this.formatSignature(signature)
+
+          return {
+            mintAddress: editionMint.publicKey.toString(),
+            signature: formattedSignature,
+            explorerUrl: this.createExplorerUrl(formattedSignature, network, "tx"),
+            metadataAddress: metadataAddressPda.toString(),
+            tokenAccount: token.toString(),
+            ...(tokenStandard === "ProgrammableNonFungible" && {
+              tokenRecord: findTokenRecordPda(umi, { mint: editionMint.publicKey, token })[0].toString(),
+            }),
+            metadataUri: editionMetadataUri,
+            editionNumber,
+            masterEdition: masterEditionMint.toString(),
+            index: i,
+            ...(recovered && { recovered }),
+          }
+        }
+
+        if (previousAttempt) {
+          const landedSignature = await this.findLandedAttempt(umi, editionMint.publicKey, previousAttempt.signature)
+          if (landedSignature) {
+            console.log(`Edition #${editionNumber} landed during attempt ${attempt}, skipping retry`)
+            confirmations.set(i, "confirmed")
+            return completeItem(landedSignature, true)
+          }
+        }
+
+        try {
+          const { builder } = await withComputeBudget(
+            umi,
+            printV1(umi, {
+              masterTokenAccountOwner: umi.identity,
+              masterEditionMint,
+              editionMint,
+              editionTokenAccountOwner: recipient,
+              editionNumber,
+              tokenStandard: TokenStandard[tokenStandard],
+            }),
+            priorityFeeMicroLamports,
+          )
+
+          const signature = await this.sendTracked(
+            umi,
+            builder,
+            await blockhashCache.get(),
+            (signature) => attempts.set(i, { editionMint, signature }),
+            (state) => confirmations.set(i, state),
+          )
+
+          return completeItem(signature, false)
+        } catch (error) {
+          if (isBlockhashError(error)) {
+            blockhashCache.invalidate()
+          }
+          console.error(`Failed to print edition #${editionNumber} (attempt ${attempt + 1}):`, error)
+          throw error
+        }
+      }
+
+      onProgress?.(`Printing ${editionCount} editions (${concurrency} at a time)...`, 0, editionCount)
+
+      const pipeline = await runPipeline(
+        Array.from({ length: editionCount }, (_, i) => i),
+        printEdition,
+        {
+          concurrency,
+          maxRetries: options.maxRetries ?? CONFIG.MINTING.maxRetries,
+          isFatalError: (error) => {
+            const errorMessage = error instanceof Error ? error.message : String(error)
+            return errorMessage.includes("insufficient lamports") || errorMessage.includes("Insufficient funds")
+          },
+          onStatus: confirmations.report,
+        },
+      )
+
+      const results = pipeline.results.filter((result): result is EnhancedMintResult => !!result)
+      const finalMasterEdition = await fetchMasterEditionFromSeeds(umi, { mint: masterEditionMint })
+
+      onProgress?.(`Edition printing complete!`, results.length, editionCount)
+
+      return {
+        results,
+        totalMinted: results.length,
+        failed: editionCount - results.length,
+        totalCost: estimatedCost,
+        insufficientFunds: pipeline.stopped,
+        remainingBalance: await connection.getBalance(wallet.publicKey),
+        masterEdition: masterEditionMint.toString(),
+        editionSupply: { printed: Number(finalMasterEdition.supply), maxSupply: maxEditions },
+        recovered: results.filter((result) => result.recovered).length,
+      }
+    } catch (error) {
+      console.error("Edition printing failed:", error)
+      throw this.handleMintingError(error)
+    }
+  }
+
+  // Make sure the connected wallet can mint into an existing tree and that it has room for the batch
+  private async resolveExistingMerkleTree(umi: Umi, address: string, quantity: number): Promise<UmiPublicKey> {
+    const validation = this.validateAndConvertAddress(address)
+    if (!validation.isValid || !validation.umiKey) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `Invalid Merkle tree address: ${address}`)
+    }
+
+    const treeConfig = await safeFetchTreeConfigFromSeeds(umi, { merkleTree: validation.umiKey })
+    if (!treeConfig) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `No Bubblegum tree found at ${address}`)
+    }
+    const identity = umi.identity.publicKey
+    if (!treeConfig.isPublic && treeConfig.treeCreator !== identity && treeConfig.treeDelegate !== identity) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Connected wallet is not allowed to mint into this Merkle tree")
+    }
+
+    const remaining = Number(treeConfig.totalMintCapacity - treeConfig.numMinted)
+    if (remaining < quantity) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Merkle tree only has room for ${remaining} more compressed NFTs, cannot mint ${quantity}`,
+      )
+    }
+
+    return validation.umiKey
+  }
+
+  async mintCompressed(options: CompressedMintOptions): Promise<BatchMintResult> {
+    const {
+      collectionName,
+      metadataUri,
+      royalty,
+      wallet,
+      network,
+      quantity,
+      recipients,
+      creators,
+      symbol = "NFT",
+      isMutable = true,
+      updateAuthority,
+      collectionMint: existingCollectionMint,
+      collectionMetadataUri,
+      merkleTree: existingMerkleTree,
+      priorityFee,
+      onProgress,
+    } = options
+
+    if (!wallet.publicKey) {
+      throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    }
+    if (!existingCollectionMint && !collectionMetadataUri) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Collection metadata URI is required to create a new collection")
+    }
+
+    try {
+      const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+        .use(mplTokenMetadata())
+        .use(mplBubblegum())
+        .use(walletAdapterIdentity(wallet))
+      const connection = this.getConnection(network)
+
+      const estimatedCost = await this.estimateMintingCost(
+        network,
+        "compressed",
+        quantity,
+        !existingCollectionMint,
+        priorityFee,
+        "NonFungible",
+        !existingMerkleTree,
+      )
+      const balanceCheck = await this.checkWalletBalance(connection, wallet.publicKey, estimatedCost, network)
+
+      if (!balanceCheck.sufficient) {
+        throw createError(
+          ERROR_CODES.INSUFFICIENT_FUNDS,
+          `Insufficient funds for ${quantity} compressed NFTs. Need ${(estimatedCost / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}, but only have ${(balanceCheck.balance / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}.`,
+        )
+      }
+
+      const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
+
+      let merkleTree: UmiPublicKey
+      if (existingMerkleTree) {
+        onProgress?.("Checking existing Merkle tree...", 0, quantity)
+        merkleTree = await this.resolveExistingMerkleTree(umi, existingMerkleTree, quantity)
+      } else {
+        const treeSize = getTreeSizeForQuantity(quantity)
+        onProgress?.(`Creating Merkle tree for up to ${2 ** treeSize.maxDepth} compressed NFTs...`, 0, quantity)
+        const treeSigner = generateSigner(umi)
+        const { builder } = await withComputeBudget(
+          umi,
+          await createTree(umi, { merkleTree: treeSigner, ...treeSize, public: false }),
+          priorityFeeMicroLamports,
+        )
+        await this.sendTracked(umi, builder, await umi.rpc.getLatestBlockhash())
+        merkleTree = treeSigner.publicKey
+      }
+      console.log("Minting into Merkle tree:", merkleTree.toString())
+
+      let collectionMint: UmiPublicKey
+      if (existingCollectionMint) {
+        onProgress?.("Checking existing collection...", 0, quantity)
+        collectionMint = await this.resolveExistingCollection(umi, existingCollectionMint)
+      } else {
+        onProgress?.("Creating collection NFT...", 0, quantity)
+        collectionMint = await this.createCollectionNft(umi, {
+          name: collectionName,
+          metadataUri: collectionMetadataUri!,
+          royalty,
+          creators,
+          symbol,
+          priorityFeeMicroLamports,
+        })
+      }
+
+      const concurrency = Math.min(
+        Math.max(1, options.concurrency ?? CONFIG.MINTING.defaultConcurrency),
+        CONFIG.MINTING.maxConcurrency,
+      )
+      const blockhashCache = new BlockhashCache(() => umi.rpc.getLatestBlockhash())
+      // There is no mint keypair to reuse, so only the last signature is kept to detect landed attempts
+      const attempts = new Map<number, TransactionSignature>()
+      const confirmations = new ConfirmationLog((status, completed) =>
+        onProgress?.(this.describeItemStatus(status, quantity, "Compressed NFT"), completed, quantity, status),
+      )
+
+      const mintLeaf = async (i: number, attempt: number): Promise<EnhancedMintResult> => {
+        const leafOwner =
+          recipients?.[i] && this.validateAndConvertAddress(recipients[i]).isValid
+            ? this.convertToUmiPublicKey(recipients[i])
+            : umi.identity.publicKey
+
+        // The leaf index and asset ID are only known once the mint transaction can be read back
+        const completeItem = async (signature: TransactionSignature, recovered: boolean) => {
+          const leaf = await parseLeafFromMintToCollectionV1Transaction(umi, signature)
+          const formattedSignature = this.formatSignature(signature)
+
+          const mintResult: EnhancedMintResult = {
+            mintAddress: leaf.id.toString(),
+            signature: formattedSignature,
+            explorerUrl: this.createExplorerUrl(formattedSignature, network, "tx"),
+            metadataAddress: "",
+            tokenAccount: "",
+            metadataUri,
+            index: i,
+            assetId: leaf.id.toString(),
+            leafIndex: Number(leaf.nonce),
+            ...(recovered && { recovered }),
+          }
+          return mintResult
+        }
+
+        const previousSignature = attempts.get(i)
+        if (previousSignature) {
+          const landedSignature = await this.findLandedAttempt(umi, null, previousSignature)
+          if (landedSignature) {
+            console.log(`Compressed NFT ${i + 1} landed during attempt ${attempt}, skipping retry`)
+            confirmations.set(i, "confirmed")
+            return completeItem(landedSignature, true)
+          }
+        }
+
+        try {
+          const { builder } = await withComputeBudget(
+            umi,
+            mintToCollectionV1(umi, {
+              leafOwner,
+              merkleTree,
+              collectionMint,
+              metadata: {
+                name: `${collectionName} #${i + 1}`,
+                symbol,
+                uri: metadataUri,
+                sellerFeeBasisPoints: royalty, // Already in basis points
+                isMutable,
+                collection: { key: collectionMint, verified: false },
+                creators: this.buildCreators(umi, creators),
+              },
+            }),
+            priorityFeeMicroLamports,
+          )
+
+          const signature = await this.sendTracked(
+            umi,
+            builder,
+            await blockhashCache.get(),
+            (signature) => attempts.set(i, signature),
+            (state) => confirmations.set(i, state),
+          )
+
+          return completeItem(signature, false)
+        } catch (error) {
+          if (isBlockhashError(error)) {
+            blockhashCache.invalidate()
+          }
+          console.error(`Failed to mint compressed NFT ${i + 1} (attempt ${attempt + 1}):`, error)
+          throw error
+        }
+      }
+
+      onProgress?.(`Minting ${quantity} compressed NFTs (${concurrency} at a time)...`, 0, quantity)
+
+      const pipeline = await runPipeline(
+        Array.from({ length: quantity }, (_, i) => i),
+        mintLeaf,
+        {
+          concurrency,
+          maxRetries: options.maxRetries ?? CONFIG.MINTING.maxRetries,
+          isFatalError: (error) => {
+            const errorMessage = error instanceof Error ? error.message : String(error)
+            return errorMessage.includes("insufficient lamports") || errorMessage.includes("Insufficient funds")
+          },
+          onStatus: confirmations.report,
+        },
+      )
+
+      const results = pipeline.results.filter((result): result is EnhancedMintResult => !!result)
+
+      if (updateAuthority) {
+        if (results.length === quantity) {
+          onProgress?.("Transferring collection update authority...", results.length, quantity)
+          await this.handOffCollection(umi, collectionMint, updateAuthority, priorityFeeMicroLamports)
+        } else {
+          onProgress?.(
+            "Collection update authority stays with this wallet until the remaining NFTs are minted",
+            results.length,
+            quantity,
+          )
+        }
+      }
+
+      onProgress?.(`Compressed minting complete!`, results.length, quantity)
+
+      return {
+        results,
+        totalMinted: results.length,
+        failed: quantity - results.length,
+        totalCost: estimatedCost,
+        insufficientFunds: pipeline.stopped,
+        remainingBalance: await connection.getBalance(wallet.publicKey),
+        collectionMint: collectionMint.toString(),
+        merkleTree: merkleTree.toString(),
+        recovered: results.filter((result) => result.recovered).length,
+      }
+    } catch (error) {
+      console.error("Compressed minting failed:", error)
+      throw this.handleMintingError(error)
+    }
+  }
+
+  // Builds every transaction mintSingleNFT or mintCollection would send and simulates it without
+  // signatures, so the wallet is never asked to sign and nothing is uploaded or broadcast
+  async simulateMint(options: DryRunOptions): Promise<DryRunReport> {
+    const {
+      mintType,
+      name,
+      royalty,
+      wallet,
+      network,
+      recipients = [],
+      creators,
+      symbol = "NFT",
+      isMutable = true,
+      updateAuthority,
+      tokenStandard = "NonFungible",
+      ruleSet,
+      program = "token-metadata",
+      freezable = false,
+      soulbound = false,
+      collectionMint: existingCollectionMint,
+      priorityFee,
+      onProgress,
+    } = options
+    if (!wallet.publicKey) throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    if (program !== "token-metadata" && program !== "core") {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Dry runs are only available for Token Metadata and Core mints")
+    }
+
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+      .use(mplTokenMetadata())
+      .use(mplCore())
+      .use(walletAdapterIdentity(wallet))
+    const connection = this.getConnection(network)
+    const quantity = mintType === "single" ? 1 : options.quantity
+    const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
+    const blockhash = await umi.rpc.getLatestBlockhash()
+    const items: DryRunItem[] = []
+
+    // A new collection only exists once its creation lands, so items are simulated without it
+    let collectionMint: UmiPublicKey | undefined
+    let coreCollection: Awaited<ReturnType<typeof fetchCollection>> | undefined
+    let itemNote: string | undefined
+    if (mintType === "collection" && existingCollectionMint) {
+      onProgress?.("Checking existing collection...", 0, quantity)
+      if (program === "core") {
+        collectionMint = await this.resolveExistingCoreCollection(umi, existingCollectionMint)
+        coreCollection = await fetchCollection(umi, collectionMint)
+      } else {
+        collectionMint = await this.resolveExistingCollection(umi, existingCollectionMint)
+      }
+    } else if (mintType === "collection") {
+      onProgress?.("Simulating collection creation...", 0, quantity)
+      const collectionSigner = generateSigner(umi)
+      const collectionInput = { name, metadataUri: DRY_RUN_URI, royalty, creators }
+      items.push(
+        await this.simulateBuilder(
+          umi,
+          program === "core"
+            ? this.buildCreateCoreCollection(umi, collectionSigner, collectionInput)
+            : this.buildCreateCollectionNft(umi, collectionSigner, { ...collectionInput, symbol }),
+          this.getCreatedAccounts(umi, program, tokenStandard, collectionSigner.publicKey, umi.identity.publicKey),
+          priorityFeeMicroLamports,
+          blockhash,
+          { label: program === "core" ? "Core collection" : "Collection NFT" },
+        ),
+      )
+      itemNote =
+        program === "core"
+          ? "Simulated as a standalone asset since the collection doesn't exist yet"
+          : "Collection verification can't be simulated until the collection exists"
+    }
+
+    const simulateItem = async (i: number): Promise<DryRunItem> => {
+      const mint = generateSigner(umi)
+      const recipient = recipients[i]?.trim() ? this.validateAndConvertAddress(recipients[i]) : undefined
+      const owner = recipient?.isValid && recipient.umiKey ? recipient.umiKey : umi.identity.publicKey
+      const itemName = mintType === "single" ? name : `${name} #${i + 1}`
+
+      let builder: TransactionBuilder
+      if (program === "core") {
+        builder = this.buildCreateCoreAsset(umi, {
+          asset: mint,
+          name: itemName,
+          uri: DRY_RUN_URI,
+          owner,
+          updateAuthority,
+          collection: coreCollection,
+          royalty,
+          creators,
+          isMutable,
+          freezable,
+          soulbound,
+        })
+      } else {
+        builder = this.buildCreateNft(umi, tokenStandard, ruleSet, {
+          mint,
+          name: itemName,
+          uri: DRY_RUN_URI,
+          sellerFeeBasisPoints: percentAmount(royalty / 100),
+          creators: this.buildCreators(umi, creators),
+          isMutable,
+          symbol,
+          ...(updateAuthority && { updateAuthority: this.convertToUmiPublicKey(updateAuthority) }),
+          ...(collectionMint && { collection: { key: collectionMint, verified: false } }),
+          tokenOwner: owner,
+        })
+        if (collectionMint) {
+          builder = builder.add(
+            verifyCollectionV1(umi, {
+              metadata: findMetadataPda(umi, { mint: mint.publicKey }),
+              collectionMint,
+              authority: umi.identity,
+            }),
+          )
+        }
+      }
+
+      return this.simulateBuilder(
+        umi,
+        builder,
+        this.getCreatedAccounts(umi, program, tokenStandard, mint.publicKey, owner),
+        priorityFeeMicroLamports,
+        blockhash,
+        { label: mintType === "single" ? itemName : `NFT #${i + 1}`, note: itemNote },
+      )
+    }
+
+    const indices = Array.from({ length: quantity }, (_, i) => i)
+    const pipeline = await runPipeline(indices, simulateItem, {
+      concurrency: Math.min(
+        Math.max(1, options.concurrency ?? CONFIG.MINTING.defaultConcurrency),
+        CONFIG.MINTING.maxConcurrency,
+      ),
+      maxRetries: 1,
+      onStatus: (_status, completed, total) => onProgress?.(`Simulated ${completed} of ${total}...`, completed, total),
+    })
+
+    for (const i of indices) {
+      const error = pipeline.errors[i]
+      items.push(
+        pipeline.results[i] ?? {
+          label: mintType === "single" ? name : `NFT #${i + 1}`,
+          feeLamports: 0,
+          rentLamports: 0,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      )
+    }
+
+    return {
+      items,
+      totalFees: items.reduce((sum, item) => sum + item.feeLamports, 0),
+      totalRent: items.reduce((sum, item) => sum + item.rentLamports, 0),
+      failed: items.filter((item) => item.error).length,
+      balance: await connection.getBalance(wallet.publicKey),
+    }
+  }
+
+  // Reads every minted NFT back from chain and compares it with what was intended, rather than trusting
+  // that a confirmed signature minted the right thing
+  async verifyMints(options: VerifyMintsOptions): Promise<MintVerification[]> {
+    const { items, network, program = "token-metadata", onProgress } = options
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+      .use(mplTokenMetadata())
+      .use(mplCore())
+
+    // Core collections carry the royalties for their assets, so each one is only fetched once
+    const collections = new Map<string, Promise<CollectionV1 | null>>()
+    const getCollection = (address: UmiPublicKey) => {
+      if (!collections.has(address)) collections.set(address, safeFetchCollectionV1(umi, address))
+      return collections.get(address)!
+    }
+
+    const verifyItem = async (i: number): Promise<MintVerification> => {
+      const { result, expected } = items[i]
+      if (result.assetId) {
+        return {
+          mintAddress: result.mintAddress,
+          index: result.index,
+          status: "skipped",
+          checks: [],
+          error: "Compressed NFTs can only be read back through a DAS-enabled RPC",
+        }
+      }
+
+      const checks =
+        program === "core"
+          ? await this.verifyCoreAsset(umi, result, expected, getCollection)
+          : program === "token-2022"
+            ? await token2022Service.verifyMint(network, result, expected)
+            : await this.verifyTokenMetadataNft(umi, result, expected)
+      return summarizeChecks(result, checks)
+    }
+
+    const indices = items.map((_, i) => i)
+    const pipeline = await runPipeline(indices, verifyItem, {
+      concurrency: Math.min(
+        Math.max(1, options.concurrency ?? CONFIG.MINTING.defaultConcurrency),
+        CONFIG.MINTING.maxConcurrency,
+      ),
+      maxRetries: 2,
+      onStatus: (_status, completed, total) =>
+        onProgress?.(`Verified ${completed} of ${total} NFTs...`, completed, total),
+    })
+
+    return indices.map((i) => {
+      const error = pipeline.errors[i]
+      return (
+        pipeline.results[i] ?? {
+          mintAddress: items[i].result.mintAddress,
+          index: items[i].result.index,
+          status: "failed",
+          checks: [],
+          error: error instanceof Error ? error.message : String(error),
+        }
+      )
+    })
+  }
+
+  // Loads what the edit flow needs: the on-chain metadata and the off-chain JSON it points at
+  async fetchEditableNft(network: NetworkType, mintAddress: string): Promise<EditableNft> {
+    const validation = this.validateAndConvertAddress(mintAddress)
+    if (!validation.isValid || !validation.umiKey) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `Invalid mint address: ${mintAddress}`)
+    }
+
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" }).use(mplTokenMetadata())
+    const metadata = await safeFetchMetadataFromSeeds(umi, { mint: validation.umiKey })
+    if (!metadata) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, `No Token Metadata NFT found for ${mintAddress}`)
+    }
+
+    // Older NFTs pad these fields with null bytes
+    const uri = metadata.uri.replace(/\0/g, "")
+    let json: Record<string, any> | null = null
+    try {
+      const response = await fetch(uri)
+      if (response.ok) json = await response.json()
+    } catch (error) {
+      console.warn("Failed to load off-chain metadata:", error)
+    }
+
+    return {
+      mintAddress: validation.umiKey.toString(),
+      name: metadata.name.replace(/\0/g, ""),
+      symbol: metadata.symbol.replace(/\0/g, ""),
+      uri,
+      royalty: metadata.sellerFeeBasisPoints,
+      updateAuthority: metadata.updateAuthority.toString(),
+      isMutable: metadata.isMutable,
+      json,
+    }
+  }
+
+  async updateNftMetadata(options: UpdateNftOptions): Promise<{ signature: string; explorerUrl: string }> {
+    const { mintAddress, name, symbol, metadataUri, royalty, wallet, network, priorityFee, onProgress } = options
+
+    if (!wallet.publicKey) {
+      throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    }
+
+    try {
+      const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+        .use(mplTokenMetadata())
+        .use(walletAdapterIdentity(wallet))
+      const mint = this.convertToUmiPublicKey(mintAddress)
+
+      onProgress?.("Checking update authority...")
+      const metadata = await fetchMetadataFromSeeds(umi, { mint })
+      if (!metadata.isMutable) {
+        throw createError(ERROR_CODES.VALIDATION_ERROR, "This NFT is immutable and can no longer be edited")
+      }
+      if (metadata.updateAuthority !== umi.identity.publicKey) {
+        throw createError(ERROR_CODES.VALIDATION_ERROR, "Connected wallet is not the update authority of this NFT")
+      }
+
+      const ruleSet = this.getRuleSet(metadata)
+
+      onProgress?.("Updating on-chain metadata...")
+      const priorityFeeMicroLamports = await resolvePriorityFee(this.getConnection(network), priorityFee)
+      const { builder } = await withComputeBudget(
+        umi,
+        updateV1(umi, {
+          mint,
+          authority: umi.identity,
+          data: { ...metadata, name, symbol, uri: metadataUri, sellerFeeBasisPoints: royalty },
+          ...(ruleSet && { authorizationRules: ruleSet }),
+        }),
+        priorityFeeMicroLamports,
+      )
+
+      const signature = this.formatSignature(await this.sendTracked(umi, builder, await umi.rpc.getLatestBlockhash()))
+
+      onProgress?.("NFT updated successfully!")
+      return { signature, explorerUrl: this.createExplorerUrl(signature, network, "tx") }
+    } catch (error) {
+      console.error("NFT update failed:", error)
+      throw this.handleMintingError(error)
+    }
+  }
+
+  // Reads the current metadata of every row and works out what would change, so the diff can be
+  // reviewed before anything is sent
+  async planBulkUpdate(
+    network: NetworkType,
+    rows: BulkUpdateRow[],
+    walletAddress: string,
+    onProgress?: (message: string) => void,
+  ): Promise<BulkUpdateItem[]> {
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" }).use(mplTokenMetadata())
+    const items: BulkUpdateItem[] = []
+
+    // getMultipleAccounts accepts at most 100 addresses per call
+    for (let start = 0; start < rows.length; start += 100) {
+      const chunk = rows.slice(start, start + 100)
+      const accounts = await umi.rpc.getAccounts(
+        chunk.map((row) => findMetadataPda(umi, { mint: publicKey(row.mintAddress) })[0]),
+      )
+
+      accounts.forEach((account, offset) => {
+        const row = chunk[offset]
+        if (!account.exists) {
+          items.push({ row, state: "invalid", changes: [], error: "No Token Metadata NFT found for this mint" })
+          return
+        }
+
+        const metadata = deserializeMetadata(account)
+        if (!metadata.isMutable) {
+          items.push({ row, state: "invalid", changes: [], error: "NFT is immutable" })
+          return
+        }
+        if (metadata.updateAuthority.toString() !== walletAddress) {
+          items.push({ row, state: "invalid", changes: [], error: "Connected wallet is not the update authority" })
+          return
+        }
+
+        const changes = this.diffMetadata(metadata, row)
+        items.push({ row, state: changes.length > 0 ? "ready" : "unchanged", changes })
+      })
+
+      onProgress?.(`Checked ${start + chunk.length} of ${rows.length} NFTs...`)
+    }
+
+    return items
+  }
+
+  // Sends the "ready" items of a plan as update transactions, a few at a time, and reports every row
+  // as it changes. Rows are re-read before each attempt so a retry never undoes or repeats a landed update.
+  async bulkUpdateMetadata(options: BulkUpdateOptions): Promise<BulkUpdateItem[]> {
+    const { wallet, network, priorityFee, onItemUpdate, onProgress } = options
+
+    if (!wallet.publicKey) {
+      throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    }
+
+    const items = options.items.map((item) => ({ ...item }))
+    const pending = items.map((item, index) => (item.state === "ready" ? index : -1)).filter((index) => index >= 0)
+    const concurrency = Math.max(
+      1,
+      Math.min(options.concurrency ?? CONFIG.MINTING.defaultConcurrency, CONFIG.MINTING.maxConcurrency),
+    )
+
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+      .use(mplTokenMetadata())
+      .use(walletAdapterIdentity(wallet))
+    const priorityFeeMicroLamports = await resolvePriorityFee(this.getConnection(network), priorityFee)
+    const blockhashCache = new BlockhashCache(() => umi.rpc.getLatestBlockhash())
+    const attempts = new Map<number, TransactionSignature>()
+
+    const updateItem = async (i: number) => {
+      const { row } = items[i]
+      const mint = publicKey(row.mintAddress)
+      const metadata = await fetchMetadataFromSeeds(umi, { mint })
+
+      if (this.diffMetadata(metadata, row).length === 0) {
+        // Already up to date: an earlier attempt landed after its confirmation timed out
+        const previousSignature = attempts.get(i)
+        if (previousSignature) items[i].signature = this.formatSignature(previousSignature)
+        return
+      }
+
+      try {
+        const ruleSet = this.getRuleSet(metadata)
+        const { builder } = await withComputeBudget(
+          umi,
+          updateV1(umi, {
+            mint,
+            authority: umi.identity,
+            data: {
+              ...metadata,
+              name: row.name ?? metadata.name,
+              uri: row.uri ?? metadata.uri,
+              sellerFeeBasisPoints: row.royalty ?? metadata.sellerFeeBasisPoints,
+            },
+            ...(ruleSet && { authorizationRules: ruleSet }),
+          }),
+          priorityFeeMicroLamports,
+        )
+
+        const signature = await this.sendTracked(umi, builder, await blockhashCache.get(), (signature) =>
+          attempts.set(i, signature),
+        )
+        items[i].signature = this.formatSignature(signature)
+      } catch (error) {
+        if (isBlockhashError(error)) {
+          blockhashCache.invalidate()
+        }
+        console.error(`Failed to update ${row.mintAddress}:`, error)
+        throw error
+      }
+    }
+
+    onProgress?.(`Updating ${pending.length} NFTs (${concurrency} at a time)...`, 0, pending.length)
+
+    await runPipeline(pending, updateItem, {
+      concurrency,
+      maxRetries: options.maxRetries ?? CONFIG.MINTING.maxRetries,
+      isFatalError: (error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return errorMessage.includes("insufficient lamports") || errorMessage.includes("Insufficient funds")
+      },
+      onStatus: (status, completed) => {
+        const item = items[status.index]
+        if (status.state === "running" || status.state === "retrying") {
+          item.state = "updating"
+          item.error = status.error
+        } else if (status.state === "succeeded") {
+          item.state = "updated"
+          item.error = undefined
+        } else if (status.state === "failed" || status.state === "skipped") {
+          item.state = status.state
+          item.error = status.error
+        }
+        if (status.state !== "queued") {
+          onItemUpdate?.({ ...item })
+        }
+        onProgress?.(`Updated ${completed} of ${pending.length} NFTs`, completed, pending.length)
+      },
+    })
+
+    return items
+  }
+
+  // Token Metadata NFTs held by `owner`, for picking what to transfer
+  async fetchOwnedNfts(network: NetworkType, owner: string): Promise<OwnedNft[]> {
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" }).use(mplTokenMetadata())
+    const assets = await fetchAllDigitalAssetWithTokenByOwner(umi, this.convertToUmiPublicKey(owner))
+
+    // Fungible tokens and emptied token accounts share the same query, keep only NFTs actually held
+    return assets
+      .filter(
+        (asset) => asset.mint.decimals === 0 && Number(asset.mint.supply) === 1 && Number(asset.token.amount) === 1,
+      )
+      .map((asset) => ({
+        mintAddress: asset.publicKey.toString(),
+        name: asset.metadata.name.replace(/\0/g, ""),
+        symbol: asset.metadata.symbol.replace(/\0/g, ""),
+        uri: asset.metadata.uri.replace(/\0/g, ""),
+        collection: isSome(asset.metadata.collection) ? asset.metadata.collection.value.key.toString() : undefined,
+        hasMasterEdition: !!asset.edition?.isOriginal,
+        printEdition: !!asset.edition && !asset.edition.isOriginal,
+        programmable: unwrapOption(asset.metadata.tokenStandard) === TokenStandard.ProgrammableNonFungible,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Sends each item to its recipient. The transfers are checked and built one by one, then packed as many to a
+  // transaction as fit, and wallets that can sign a batch approve a whole chunk of those transactions at once.
+  // The Token Metadata transfer instruction creates the recipient's token account when it doesn't exist yet.
+  async transferNfts(options: BulkTransferOptions): Promise<TransferItem[]> {
+    const { wallet, network, priorityFee, onItemUpdate, onProgress } = options
+
+    if (!wallet.publicKey) {
+      throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    }
+
+    const items = options.items.map((item) => ({ ...item }))
+    const pending = items.map((item, index) => (item.state === "queued" ? index : -1)).filter((index) => index >= 0)
+    const concurrency = Math.max(
+      1,
+      Math.min(options.concurrency ?? CONFIG.MINTING.defaultConcurrency, CONFIG.MINTING.maxConcurrency),
+    )
+    const maxRetries = options.maxRetries ?? CONFIG.MINTING.maxRetries
+
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+      .use(mplTokenMetadata())
+      .use(walletAdapterIdentity(wallet))
+    const connection = this.getConnection(network)
+    const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
+
+    const updateItem = (i: number, update: Partial<TransferItem>) => {
+      Object.assign(items[i], update)
+      onItemUpdate?.({ ...items[i] })
+    }
+    const countDone = () =>
+      pending.filter((i) => items[i].state !== "queued" && items[i].state !== "transferring").length
+    const reportProgress = () =>
+      onProgress?.(`Transferred ${countDone()} of ${pending.length} NFTs`, countDone(), pending.length)
+
+    const transfers = new Map<number, TransactionBuilder>()
+    const buildTransfer = async (i: number) => {
+      const item = items[i]
+      const mint = this.convertToUmiPublicKey(item.mintAddress)
+      const asset = await fetchDigitalAssetWithAssociatedToken(umi, mint, umi.identity.publicKey)
+      if (Number(asset.token.amount) !== 1) {
+        throw createError(ERROR_CODES.VALIDATION_ERROR, "This wallet no longer holds the NFT")
+      }
+
+      const ruleSet = this.getRuleSet(asset.metadata)
+      transfers.set(
+        i,
+        transferV1(umi, {
+          mint,
+          authority: umi.identity,
+          tokenOwner: umi.identity.publicKey,
+          destinationOwner: this.convertToUmiPublicKey(item.recipient),
+          tokenStandard: unwrapOption(asset.metadata.tokenStandard) ?? TokenStandard.NonFungible,
+          ...(ruleSet && { authorizationRules: ruleSet }),
+        }),
+      )
+    }
+
+    onProgress?.(`Checking ${pending.length} NFTs (${concurrency} at a time)...`, 0, pending.length)
+
+    await runPipeline(pending, buildTransfer, {
+      concurrency,
+      maxRetries,
+      onStatus: (status) => {
+        if (status.state !== "failed") return
+        console.error(`Failed to transfer ${items[status.index].mintAddress}:`, status.error)
+        updateItem(status.index, { state: "failed", error: status.error })
+        reportProgress()
+      },
+    })
+
+    const groups = this.packTransfers(
+      umi,
+      pending.filter((i) => transfers.has(i)),
+      transfers,
+      priorityFeeMicroLamports,
+    )
+    const groupBuilder = (g: number) =>
+      groups[g].reduce((builder, i) => builder.add(transfers.get(i)!), transactionBuilder())
+    // The last signature of each transaction, so one that landed but timed out isn't sent again
+    const attempts = new Map<number, TransactionSignature>()
+
+    const completeGroup = (g: number, signature: TransactionSignature) => {
+      groups[g].forEach((i) => (items[i].signature = this.formatSignature(signature)))
+      return signature
+    }
+    // A transaction that landed during an earlier attempt completes its transfers without being rebuilt
+    const findLandedGroup = async (g: number) => {
+      const previousSignature = attempts.get(g)
+      const landedSignature = previousSignature && (await this.findLandedAttempt(umi, null, previousSignature))
+      if (!landedSignature) return null
+      console.log(`Transfer of ${groups[g].length} NFTs landed during an earlier attempt, skipping retry`)
+      return completeGroup(g, landedSignature)
+    }
+    const logTransferError = (g: number, error: unknown) => {
+      console.error(`Failed to transfer ${groups[g].map((i) => items[i].mintAddress).join(", ")}:`, error)
+    }
+
+    const isFatalError = (error: unknown) => {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      return errorMessage.includes("insufficient lamports") || errorMessage.includes("Insufficient funds")
+    }
+    // Every transfer in a transaction shares its status. A declined wallet prompt puts them back in the queue.
+    const onStatus = (status: PipelineItemStatus) => {
+      const state =
+        status.state === "running" || status.state === "retrying"
+          ? "transferring"
+          : status.state === "succeeded"
+            ? "transferred"
+            : status.state
+      const error = status.state === "succeeded" ? undefined : status.error
+      const changed = groups[status.index].filter((i) => items[i].state !== state || items[i].error !== error)
+      changed.forEach((i) => updateItem(i, { state, error }))
+      if (changed.length > 0 && state !== "queued") reportProgress()
+    }
+
+    const transferCount = groups.reduce((count, group) => count + group.length, 0)
+    onProgress?.(`Transferring ${transferCount} NFTs in ${groups.length} transactions...`, countDone(), pending.length)
+
+    const groupIndices = groups.map((_, g) => g)
+    const blockhashCache = new BlockhashCache(() => umi.rpc.getLatestBlockhash())
+    if (this.supportsSignAll(wallet)) {
+      await runSignedBatches(groupIndices, {
+        concurrency,
+        maxRetries,
+        isFatalError,
+        onStatus,
+        getBlockhash: async () => {
+          const blockhash = await umi.rpc.getLatestBlockhash()
+          const blockHeight = await connection.getBlockHeight("confirmed")
+          return { blockhash, blocksLeft: blockhash.lastValidBlockHeight - blockHeight }
+        },
+        prepare: async (g): Promise<{ result: TransactionSignature } | { prepared: TransactionBuilder }> => {
+          const landedSignature = await findLandedGroup(g)
+          if (landedSignature) return { result: landedSignature }
+          const { builder } = await withComputeBudget(umi, groupBuilder(g), priorityFeeMicroLamports)
+          return { prepared: builder }
+        },
+        signAll: (builders, blockhash) => {
+          onProgress?.(`Waiting for wallet approval of ${builders.length} transactions...`, countDone(), pending.length)
+          return signAllTransactions(
+            builders.map((builder) => ({
+              transaction: builder.setBlockhash(blockhash).build(umi),
+              signers: builder.getSigners(umi),
+            })),
+          )
+        },
+        send: async (g, transaction, blockhash) => {
+          const signature = transaction.signatures[0]
+          attempts.set(g, signature)
+          try {
+            await this.sendAndConfirm(umi, transaction, blockhash)
+          } catch (error) {
+            logTransferError(g, error)
+            throw error
+          }
+          return completeGroup(g, signature)
+        },
+      })
+    } else {
+      await runPipeline(
+        groupIndices,
+        async (g) => {
+          const landedSignature = await findLandedGroup(g)
+          if (landedSignature) return landedSignature
+
+          try {
+            const { builder } = await withComputeBudget(umi, groupBuilder(g), priorityFeeMicroLamports)
+            const signature = await this.sendTracked(umi, builder, await blockhashCache.get(), (signature) =>
+              attempts.set(g, signature),
+            )
+            return completeGroup(g, signature)
+          } catch (error) {
+            if (isBlockhashError(error)) {
+              blockhashCache.invalidate()
+            }
+            logTransferError(g, error)
+            throw error
+          }
+        },
+        { concurrency, maxRetries, isFatalError, onStatus },
+      )
+    }
+
+    return items
+  }
+
+  // Packs transfers into as few transactions as fit the size limit with their compute budget instructions. The
+  // size limit is reached long before the compute limit, at four regular transfers or fewer programmable ones.
+  private packTransfers(
+    umi: Umi,
+    indices: number[],
+    transfers: Map<number, TransactionBuilder>,
+    priorityFeeMicroLamports: number,
+  ): number[][] {
+    const groups: number[][] = []
+    let current: number[] = []
+    let builder = transactionBuilder()
+
+    for (const i of indices) {
+      const candidate = builder.add(transfers.get(i)!)
+      if (current.length > 0 && !fitsWithComputeBudget(umi, candidate, priorityFeeMicroLamports)) {
+        groups.push(current)
+        current = [i]
+        builder = transactionBuilder().add(transfers.get(i)!)
+      } else {
+        current.push(i)
+        builder = candidate
+      }
+    }
+    if (current.length > 0) groups.push(current)
+
+    return groups
+  }
+
+  // Burns each item through Token Metadata, which closes the token account, metadata and edition and
+  // returns their rent to this wallet. Print editions also clear their number in the master's edition marker.
+  async burnNfts(options: BulkBurnOptions): Promise<BurnItem[]> {
+    const { wallet, network, priorityFee, onItemUpdate, onProgress } = options
+
+    if (!wallet.publicKey) {
+      throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    }
+
+    const items = options.items.map((item) => ({ ...item }))
+    const pending = items.map((item, index) => (item.state === "queued" ? index : -1)).filter((index) => index >= 0)
+    const concurrency = Math.max(
+      1,
+      Math.min(options.concurrency ?? CONFIG.MINTING.defaultConcurrency, CONFIG.MINTING.maxConcurrency),
+    )
+
+    const umi = createUmi(CONFIG.NETWORKS[network].url, { commitment: "confirmed" })
+      .use(mplTokenMetadata())
+      .use(walletAdapterIdentity(wallet))
+    const connection = this.getConnection(network)
+    const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
+    const rent = await costModel.getRentTable(network)
+    const blockhashCache = new BlockhashCache(() => umi.rpc.getLatestBlockhash())
+    // The refund is worked out before sending, since the accounts it depends on are gone once the burn lands
+    const attempts = new Map<number, { signature: TransactionSignature; reclaimedLamports: number }>()
+
+    const burnItem = async (i: number) => {
+      const item = items[i]
+      const mint = this.convertToUmiPublicKey(item.mintAddress)
+
+      // The metadata account only disappears once the burn has gone through
+      const previousAttempt = attempts.get(i)
+      if (previousAttempt) {
+        const metadataExists = await umi.rpc.accountExists(findMetadataPda(umi, { mint })[0], {
+          commitment: "confirmed",
+        })
+        if (!metadataExists) {
+          console.log(`Burn of ${item.mintAddress} landed during an earlier attempt, skipping retry`)
+          item.signature = this.formatSignature(previousAttempt.signature)
+          item.reclaimedLamports = previousAttempt.reclaimedLamports
+          return
+        }
+      }
+
+      try {
+        const asset = await fetchDigitalAssetWithAssociatedToken(umi, mint, umi.identity.publicKey)
+        if (Number(asset.token.amount) !== 1) {
+          throw createError(ERROR_CODES.VALIDATION_ERROR, "This wallet no longer holds the NFT")
+        }
+
+        // Token Metadata needs the master edition a print was made from to clear its edition marker
+        const printEdition = asset.edition && !asset.edition.isOriginal ? asset.edition : undefined
+        let printAccounts = {}
+        if (printEdition) {
+          const masterEditionMint = await this.findMasterEditionMint(umi, connection, printEdition)
+          const [masterEditionToken] = (await connection.getTokenLargestAccounts(new PublicKey(masterEditionMint)))
+            .value
+          if (!masterEditionToken) {
+            throw createError(ERROR_CODES.VALIDATION_ERROR, "The master edition of this print has no token account")
+          }
+          printAccounts = {
+            masterEditionMint,
+            masterEditionToken: publicKey(masterEditionToken.address.toString()),
+            editionMarker: findEditionMarkerFromEditionNumberPda(umi, {
+              mint: masterEditionMint,
+              editionNumber: printEdition.edition,
+            }),
+          }
+        }
+
+        const tokenStandard = unwrapOption(asset.metadata.tokenStandard) ?? TokenStandard.NonFungible
+        // Burning a verified collection item decrements the collection size, so the collection must be passed
+        const collection = unwrapOption(asset.metadata.collection)
+        const { builder } = await withComputeBudget(
+          umi,
+          burnV1(umi, {
+            mint,
+            authority: umi.identity,
+            tokenOwner: umi.identity.publicKey,
+            tokenStandard,
+            ...printAccounts,
+            ...(collection?.verified && { collectionMetadata: findMetadataPda(umi, { mint: collection.key }) }),
+          }),
+          priorityFeeMicroLamports,
+        )
+
+        const reclaimedLamports = costModel.getBurnRefund(rent, {
+          hasMasterEdition: !!asset.edition?.isOriginal,
+          printEdition: !!printEdition,
+          programmable: tokenStandard === TokenStandard.ProgrammableNonFungible,
+        })
+        const signature = await this.sendTracked(umi, builder, await blockhashCache.get(), (signature) =>
+          attempts.set(i, { signature, reclaimedLamports }),
+        )
+        item.signature = this.formatSignature(signature)
+        item.reclaimedLamports = reclaimedLamports
+      } catch (error) {
+        if (isBlockhashError(error)) {
+          blockhashCache.invalidate()
+        }
+        console.error(`Failed to burn ${item.mintAddress}:`, error)
+        throw error
+      }
+    }
+
+    onProgress?.(`Burning ${pending.length} NFTs (${concurrency} at a time)...`, 0, pending.length)
+
+    await runPipeline(pending, burnItem, {
+      concurrency,
+      maxRetries: options.maxRetries ?? CONFIG.MINTING.maxRetries,
+      isFatalError: (error) => {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        return errorMessage.includes("insufficient lamports") || errorMessage.includes("Insufficient funds")
+      },
+      onStatus: (status, completed) => {
+        const item = items[status.index]
+        if (status.state === "queued") return
+        if (status.state === "running" || status.state === "retrying") {
+          item.state = "burning"
+          item.error = status.error
+        } else if (status.state === "succeeded") {
+          item.state = "burned"
+          item.error = undefined
+        } else {
+          item.state = status.state
+          item.error = status.error
+        }
+        onItemUpdate?.({ ...item })
+        onProgress?.(`Burned ${completed} of ${pending.length} NFTs`, completed, pending.length)
+      },
+    })
+
+    return items
+  }
+
+  // A print edition only points at its master edition account, not at the master's mint. The transaction that
+  // printed it lists the master mint among its accounts, so the mint whose master edition PDA is the parent is it.
+  private async findMasterEditionMint(umi: Umi, connection: Connection, printEdition: Edition): Promise<UmiPublicKey> {
+    // Signatures come newest first; an edition account is only written when it's printed and burned
+    const signatures = await connection.getSignaturesForAddress(new PublicKey(printEdition.publicKey.toString()))
+    const printSignature = signatures[signatures.length - 1]?.signature
+    const transaction = printSignature ? await umi.rpc.getTransaction(bs58.decode(printSignature)) : null
+    const masterEditionMint = transaction?.message.accounts.find(
+      (account) => findMasterEditionPda(umi, { mint: account })[0].toString() === printEdition.parent.toString(),
+    )
+    if (!masterEditionMint) {
+      throw createError(ERROR_CODES.VALIDATION_ERROR, "Could not find the master edition this print was made from")
+    }
+    return masterEditionMint
+  }
+
+  private diffMetadata(metadata: Metadata, row: BulkUpdateRow): BulkUpdateChange[] {
+    const changes: BulkUpdateChange[] = []
+    const name = metadata.name.replace(/\0/g, "")
+    const uri = metadata.uri.replace(/\0/g, "")
+
+    if (row.name !== undefined && row.name !== name) changes.push({ field: "name", from: name, to: row.name })
+    if (row.uri !== undefined && row.uri !== uri) changes.push({ field: "uri", from: uri, to: row.uri })
+    if (row.royalty !== undefined && row.royalty !== metadata.sellerFeeBasisPoints) {
+      changes.push({ field: "royalty", from: metadata.sellerFeeBasisPoints, to: row.royalty })
+    }
+    return changes
+  }
+
+  // Programmable NFTs with a rule set need it passed along for an update to be authorized
+  private getRuleSet(metadata: Metadata): UmiPublicKey | undefined {
+    const programmableConfig = metadata.programmableConfig
+    return isSome(programmableConfig) && isSome(programmableConfig.value.ruleSet)
+      ? programmableConfig.value.ruleSet.value
+      : undefined
+  }
+
+  // Sizes the compute budget exactly as a real send would, then simulates the budgeted transaction
+  private async simulateBuilder(
+    umi: Umi,
+    builder: TransactionBuilder,
+    createdAccounts: UmiPublicKey[],
+    priorityFeeMicroLamports: number,
+    blockhash: BlockhashWithExpiryBlockHeight,
+    { label, note }: { label: string; note?: string },
+  ): Promise<DryRunItem> {
+    const { builder: budgeted, budget } = await withComputeBudget(umi, builder, priorityFeeMicroLamports)
+    const transaction = budgeted.setBlockhash(blockhash).build(umi)
+    const result = await umi.rpc.simulateTransaction(transaction, {
+      verifySignatures: false,
+      accounts: createdAccounts,
+    })
+
+    return {
+      label,
+      computeUnits: result.unitsConsumed,
+      feeLamports:
+        5000 * transaction.message.header.numRequiredSignatures +
+        getPriorityFeeLamports(budget.microLamports, budget.unitLimit),
+      // New accounts hold exactly the rent they were funded with
+      rentLamports: result.err
+        ? 0
+        : (result.accounts ?? []).reduce((sum, account) => sum + (account?.lamports ?? 0), 0),
+      ...(result.err && { error: this.describeSimulationError(result.err, result.logs), logs: result.logs ?? [] }),
+      ...(note && { note }),
+    }
+  }
+
+  private getCreatedAccounts(
+    umi: Umi,
+    program: NftProgram,
+    tokenStandard: NftTokenStandard,
+    mint: UmiPublicKey,
+    owner: UmiPublicKey,
+  ): UmiPublicKey[] {
+    if (program === "core") return [mint]
+
+    const [token] = findAssociatedTokenPda(umi, { mint, owner })
+    const accounts = [mint, findMetadataPda(umi, { mint })[0], findMasterEditionPda(umi, { mint })[0], token]
+    if (tokenStandard === "ProgrammableNonFungible") {
+      accounts.push(findTokenRecordPda(umi, { mint, token })[0])
+    }
+    return accounts
+  }
+
+  // The raw simulation error is just an instruction index and code, so prefer the program's own message
+  private describeSimulationError(error: unknown, logs: string[] | null): string {
+    const logLine = logs?.find((line) => /error|insufficient/i.test(line))
+    if (logLine) return logLine.replace(/^Program log: /, "")
+    return typeof error === "string" ? error : JSON.stringify(error)
+  }
+
+  private async verifyTokenMetadataNft(
+    umi: Umi,
+    result: EnhancedMintResult,
+    expected: MintExpectation,
+  ): Promise<VerificationCheck[]> {
+    const [mintAccount, metadataAccount, tokenAccount] = await umi.rpc.getAccounts([
+      publicKey(result.mintAddress),
+      publicKey(result.metadataAddress),
+      publicKey(result.tokenAccount),
+    ])
+
+    const supply = mintAccount.exists ? deserializeMint(mintAccount).supply : undefined
+    const checks = [
+      checkField("mint", "supply 1", supply === undefined ? undefined : `supply ${supply}`),
+      checkExists("metadata", result.metadataAddress, metadataAccount.exists),
+    ]
+
+    if (metadataAccount.exists) {
+      // Older NFTs pad these fields with null bytes
+      const metadata = deserializeMetadata(metadataAccount)
+      if (expected.name !== undefined) {
+        checks.push(checkField("name", expected.name, metadata.name.replace(/\0/g, "")))
+      }
+      checks.push(checkField("uri", expected.uri, metadata.uri.replace(/\0/g, "")))
+      if (expected.creators) {
+        const creators = unwrapOption(metadata.creators) ?? []
+        checks.push(
+          checkField(
+            "creators",
+            formatCreators(expected.creators),
+            formatCreators(creators.map((creator) => ({ address: creator.address.toString(), share: creator.share }))),
+          ),
+        )
+      }
+      if (expected.collection) {
+        const collection = unwrapOption(metadata.collection)
+        checks.push(
+          checkField(
+            "collection",
+            `${expected.collection} (verified)`,
+            collection ? `${collection.key} (${collection.verified ? "verified" : "unverified"})` : undefined,
+          ),
+        )
+      }
+    }
+
+    // The recipient must hold the one token, in the token account reported for the mint
+    const token = tokenAccount.exists ? deserializeToken(tokenAccount) : undefined
+    checks.push(
+      checkField(
+        "owner",
+        expected.owner,
+        token && (Number(token.amount) === 1 ? token.owner.toString() : `${token.owner} (balance ${token.amount})`),
+      ),
+    )
+
+    return checks
+  }
+
+  private async verifyCoreAsset(
+    umi: Umi,
+    result: EnhancedMintResult,
+    expected: MintExpectation,
+    getCollection: (address: UmiPublicKey) => Promise<CollectionV1 | null>,
+  ): Promise<VerificationCheck[]> {
+    const asset = await safeFetchAssetV1(umi, publicKey(result.mintAddress))
+    if (!asset) return [checkExists("mint", result.mintAddress, false)]
+
+    const collection = asset.updateAuthority.type === "Collection" ? asset.updateAuthority.address : undefined
+    const checks = [
+      checkField("uri", expected.uri, asset.uri),
+      checkField("owner", expected.owner, asset.owner.toString()),
+    ]
+    if (expected.name !== undefined) checks.unshift(checkField("name", expected.name, asset.name))
+    if (expected.collection) checks.push(checkField("collection", expected.collection, collection?.toString()))
+    if (expected.creators) {
+      // Assets in a collection take their royalties from it
+      const royalties = asset.royalties ?? (collection && (await getCollection(collection))?.royalties)
+      checks.push(
+        checkField(
+          "creators",
+          formatCreators(expected.creators),
+          royalties
+            ? formatCreators(
+                royalties.creators.map((creator) => ({
+                  address: creator.address.toString(),
+                  share: creator.percentage,
+                })),
+              )
+            : undefined,
+        ),
+      )
+    }
+
+    return checks
+  }
+
+  // Signs before sending so the signature is known even if confirmation never comes back
+  private async sendTracked(
+    umi: Umi,
+    builder: TransactionBuilder,
+    blockhash: BlockhashWithExpiryBlockHeight,
+    onSigned?: (signature: TransactionSignature) => unknown, // Awaited, so a returned promise holds the send back
+    onConfirmation?: (state: ConfirmationState) => void,
+  ): Promise<TransactionSignature> {
+    const transaction = await builder.setBlockhash(blockhash).buildAndSign(umi)
+    const signature = transaction.signatures[0]
+    await onSigned?.(signature)
+
+    await this.sendAndConfirm(umi, transaction, blockhash, onConfirmation)
+    return signature
+  }
+
+  // Rebroadcasts the signed transaction until it confirms or its blockhash expires, so every send ends in a
+  // known state; expiry and program errors are thrown
+  private sendAndConfirm(
+    umi: Umi,
+    transaction: Transaction,
+    blockhash: BlockhashWithExpiryBlockHeight,
+    onConfirmation?: (state: ConfirmationState) => void,
+  ) {
+    return confirmationTracker.track({
+      endpoint: umi.rpc.getEndpoint(),
+      rawTransaction: umi.transactions.serialize(transaction),
+      signature: bs58.encode(transaction.signatures[0]),
+      lastValidBlockHeight: blockhash.lastValidBlockHeight,
+      onStateChange: onConfirmation,
+    })
+  }
+
+  // Every adapter built on the wallet-adapter base classes has signAllTransactions, but some wallets only
+  // implement it by prompting once per transaction; those still work, just without the single prompt
+  private supportsSignAll(wallet: WalletAdapter): boolean {
+    return typeof (wallet as { signAllTransactions?: unknown }).signAllTransactions === "function"
+  }
+
+  // Checks whether a previous attempt made it on-chain even though it looked like it failed. The mint
+  // account is only created by a successful mint transaction, so it existing means the NFT was minted.
+  // Compressed NFTs have no mint account and rely on the signature status alone.
+  private async findLandedAttempt(
+    umi: Umi,
+    mint: UmiPublicKey | null,
+    signature?: TransactionSignature,
+  ): Promise<TransactionSignature | null> {
+    // Without a signature the transaction was never signed, so it can't have been sent
+    if (!signature) return null
+
+    const [status] = await umi.rpc.getSignatureStatuses([signature], { searchTransactionHistory: true })
+    if (status && !status.error && (status.commitment === "confirmed" || status.commitment === "finalized")) {
+      return signature
+    }
+
+    if (!mint) return null
+    const mintExists = await umi.rpc.accountExists(mint, { commitment: "confirmed" })
+    return mintExists ? signature : null
+  }
+
+  // Resolves an attempt saved by an earlier run. Until its blockhash expires the transaction can still land,
+  // so it's only given up on once the block height has passed it.
+  private async findSavedAttempt(
+    umi: Umi,
+    connection: Connection,
+    saved: MintAttempt,
+  ): Promise<TransactionSignature | null> {
+    const mint = publicKey(saved.mintAddress)
+    const signature = bs58.decode(saved.signature)
+    while ((await connection.getBlockHeight("confirmed")) <= saved.lastValidBlockHeight) {
+      const landedSignature = await this.findLandedAttempt(umi, mint, signature)
+      if (landedSignature) return landedSignature
+      await new Promise((resolve) => setTimeout(resolve, CONFIG.MINTING.confirmPollMs))
+    }
+    return this.findLandedAttempt(umi, mint, signature)
+  }
+
+  private describeItemStatus(status: PipelineItemStatus, total: number, itemName = "NFT"): string {
+    const label = `${itemName} ${status.index + 1}`
+    switch (status.state) {
+      case "queued":
+        return `${label} of ${total} queued`
+      case "running":
+        return `Creating ${label} of ${total}...`
+      case "retrying":
+        return status.error
+          ? `${label} failed, retrying... (${status.error})`
+          : `Creating ${label} of ${total} (retry ${status.attempt})...`
+      case "succeeded":
+        return `${label} created successfully`
+      case "failed":
+        return `Failed to create ${label} after ${status.attempt} attempts: ${status.error}`
+      case "skipped":
+        return `${label} skipped`
+    }
+  }
+
   private handleMintingError(error: any): Error {
     console.error("Detailed error analysis:", {
       errorType: typeof error,
@@ -23,6 +23,7 @@ export const ERROR_CODES = {
   // Validation errors
   INVALID_METADATA: "INVALID_METADATA",
   MISSING_REQUIRED_FIELDS: "MISSING_REQUIRED_FIELDS",
+  VALIDATION_ERROR: "VALIDATION_ERROR",
 
   // Network errors
   NETWORK_ERROR: "NETWORK_ERROR",
@@ -32,6 +33,7 @@ export const ERROR_CODES = {
   MINT_FAILED: "MINT_FAILED",
   TRANSACTION_FAILED: "TRANSACTION_FAILED",
   CONFIRMATION_TIMEOUT: "CONFIRMATION_TIMEOUT",
+  TRANSACTION_TOO_LARGE: "TRANSACTION_TOO_LARGE",
 } as const
 
 export function getErrorMessage(error: unknown): string {
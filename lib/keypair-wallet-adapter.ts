@@ -0,0 +1,47 @@
+import { Keypair, type PublicKey, type Transaction, type VersionedTransaction } from "@solana/web3.js"
+import {
+  BaseSignerWalletAdapter,
+  isVersionedTransaction,
+  WalletReadyState,
+  type WalletName,
+} from "@solana/wallet-adapter-base"
+
+// Signs with a local keypair, so the minting services can run headless from scripts
+export class KeypairWalletAdapter extends BaseSignerWalletAdapter {
+  name = "Keypair" as WalletName<"Keypair">
+  url = ""
+  icon = ""
+  readyState = WalletReadyState.Loadable
+  supportedTransactionVersions = new Set(["legacy", 0] as const)
+  connecting = false
+
+  constructor(private readonly keypair: Keypair) {
+    super()
+  }
+
+  // Reads the JSON secret key array written by `solana-keygen`
+  static fromSecretKey(secretKey: number[]): KeypairWalletAdapter {
+    return new KeypairWalletAdapter(Keypair.fromSecretKey(Uint8Array.from(secretKey)))
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey
+  }
+
+  async connect(): Promise<void> {
+    this.emit("connect", this.keypair.publicKey)
+  }
+
+  async disconnect(): Promise<void> {
+    this.emit("disconnect")
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+    if (isVersionedTransaction(transaction)) {
+      transaction.sign([this.keypair])
+    } else {
+      transaction.partialSign(this.keypair)
+    }
+    return transaction
+  }
+}
@@ -0,0 +1,49 @@
+import { getMerkleTreeSize } from "@metaplex-foundation/spl-account-compression"
+import { CONFIG } from "./config"
+import { createError, ERROR_CODES } from "./errors"
+
+export interface MerkleTreeSize {
+  maxDepth: number
+  maxBufferSize: number
+  canopyDepth: number
+}
+
+// Depth and buffer size pairs accepted by the account compression program, smallest first. A buffer
+// of 64 allows plenty of concurrent mints into the same tree per slot.
+const TREE_SHAPES = [
+  { maxDepth: 3, maxBufferSize: 8 },
+  { maxDepth: 5, maxBufferSize: 8 },
+  { maxDepth: 14, maxBufferSize: 64 },
+  { maxDepth: 15, maxBufferSize: 64 },
+  { maxDepth: 16, maxBufferSize: 64 },
+  { maxDepth: 17, maxBufferSize: 64 },
+  { maxDepth: 18, maxBufferSize: 64 },
+  { maxDepth: 19, maxBufferSize: 64 },
+  { maxDepth: 20, maxBufferSize: 64 },
+  { maxDepth: 24, maxBufferSize: 64 },
+  { maxDepth: 26, maxBufferSize: 512 },
+  { maxDepth: 30, maxBufferSize: 512 },
+]
+
+export const MAX_TREE_CAPACITY = 2 ** TREE_SHAPES[TREE_SHAPES.length - 1].maxDepth
+
+// Smallest tree that holds `quantity` leaves, with a canopy deep enough to keep transfer proofs short
+export function getTreeSizeForQuantity(quantity: number): MerkleTreeSize {
+  const shape = TREE_SHAPES.find(({ maxDepth }) => 2 ** maxDepth >= quantity)
+  if (!shape) {
+    throw createError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `A single Merkle tree holds at most ${MAX_TREE_CAPACITY} compressed NFTs`,
+    )
+  }
+
+  const canopyDepth = Math.min(
+    Math.max(0, shape.maxDepth - CONFIG.COMPRESSION.maxProofLength),
+    CONFIG.COMPRESSION.maxCanopyDepth,
+  )
+  return { ...shape, canopyDepth }
+}
+
+export function getTreeAccountSize({ maxDepth, maxBufferSize, canopyDepth }: MerkleTreeSize): number {
+  return getMerkleTreeSize(maxDepth, maxBufferSize, canopyDepth)
+}
@@ -0,0 +1,256 @@
+import type { NetworkType } from "./config"
+import type { EnhancedMintResult, MintAttempt } from "./enhanced-metaplex-service"
+import { createError, ERROR_CODES } from "./errors"
+import type { CreatorShare, NftProgram, NftTokenStandard } from "./validation"
+import type { MintingEngineId } from "./minting-engine"
+
+export interface MintJobItem {
+  index: number
+  fileName: string
+  fileType: string
+  file?: Blob // Kept only until the image is uploaded
+  imageUri?: string
+  metadataUri?: string // Final metadata; for unrevealed jobs only set once the reveal uploads it
+  imageHash?: string // SHA-256 of the final art, for unrevealed jobs
+  // Saved before the mint transaction is sent, so a resumed job checks whether it landed instead of minting again
+  pendingAttempt?: MintAttempt
+  mintResult?: EnhancedMintResult
+  error?: string
+}
+
+// Unrevealed drops mint every NFT with a shared placeholder and keep the final art in the journal until the reveal
+export interface MintJobReveal {
+  placeholderFile?: Blob // Kept only until the placeholder image is uploaded
+  placeholderFileName: string
+  placeholderFileType: string
+  placeholderImageUri?: string
+  placeholderMetadataUri?: string
+  provenanceHash?: string
+  revealedAt?: number
+}
+
+export interface MintJob {
+  id: string
+  createdAt: number
+  updatedAt: number
+  status: "in-progress" | "completed"
+  network: NetworkType
+  wallet: string
+  name: string
+  symbol?: string
+  description: string
+  royalty: number
+  attributes: Array<{ trait_type: string; value: string }>
+  recipients: string[]
+  creators?: CreatorShare[]
+  isMutable?: boolean
+  updateAuthority?: string
+  tokenStandard?: NftTokenStandard
+  ruleSet?: string
+  program?: NftProgram
+  freezable?: boolean
+  soulbound?: boolean
+  engine?: MintingEngineId // Token Metadata jobs resume on the engine they started with
+  collectionMint?: string
+  collectionMetadataUri?: string
+  reveal?: MintJobReveal
+  items: MintJobItem[]
+}
+
+export interface NewMintJob {
+  network: NetworkType
+  wallet: string
+  name: string
+  symbol?: string
+  description: string
+  royalty: number
+  attributes: Array<{ trait_type: string; value: string }>
+  recipients: string[]
+  creators?: CreatorShare[]
+  isMutable?: boolean
+  updateAuthority?: string
+  tokenStandard?: NftTokenStandard
+  ruleSet?: string
+  program?: NftProgram
+  freezable?: boolean
+  soulbound?: boolean
+  engine?: MintingEngineId
+  collectionMint?: string
+  placeholderImage?: File // Mints an unrevealed drop when set
+  files: File[]
+}
+
+const DB_NAME = "eclipse-nft-minter"
+const DB_VERSION = 1
+const JOBS_STORE = "mint-jobs"
+
+export function getJobProgress(job: MintJob): { minted: number; total: number } {
+  return {
+    minted: job.items.filter((item) => item.mintResult).length,
+    total: job.items.length,
+  }
+}
+
+// Persists collection mint jobs in IndexedDB so an interrupted batch can be resumed
+class MintJournal {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (typeof indexedDB === "undefined") {
+      return Promise.reject(createError(ERROR_CODES.VALIDATION_ERROR, "Mint journal requires a browser with IndexedDB"))
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(JOBS_STORE)) {
+            db.createObjectStore(JOBS_STORE, { keyPath: "id" })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          this.dbPromise = null
+          reject(request.error)
+        }
+      })
+    }
+
+    return this.dbPromise
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore, done: (value: T) => void, fail: (error: Error) => void) => void,
+  ): Promise<T> {
+    const db = await this.openDatabase()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(JOBS_STORE, mode)
+      let result: T
+      let failure: Error | null = null
+      run(
+        transaction.objectStore(JOBS_STORE),
+        (value) => {
+          result = value
+        },
+        (error) => {
+          failure = error
+          transaction.abort()
+        },
+      )
+      transaction.oncomplete = () => resolve(result)
+      transaction.onerror = () => reject(failure ?? transaction.error)
+      transaction.onabort = () => reject(failure ?? transaction.error)
+    })
+  }
+
+  // Read-modify-write inside a single transaction so concurrent item updates don't clobber each other
+  private updateJobRecord(id: string, update: (job: MintJob) => void): Promise<MintJob> {
+    return this.withStore<MintJob>("readwrite", (store, done, fail) => {
+      const request = store.get(id)
+      request.onsuccess = () => {
+        const job = request.result as MintJob | undefined
+        if (!job) {
+          fail(createError(ERROR_CODES.VALIDATION_ERROR, `Mint job ${id} not found`))
+          return
+        }
+        try {
+          update(job)
+        } catch (error) {
+          fail(error instanceof Error ? error : new Error(String(error)))
+          return
+        }
+        job.updatedAt = Date.now()
+        store.put(job)
+        done(job)
+      }
+    })
+  }
+
+  async createJob(input: NewMintJob): Promise<MintJob> {
+    const now = Date.now()
+    const job: MintJob = {
+      id: `${now}-${Math.random().toString(36).slice(2, 10)}`,
+      createdAt: now,
+      updatedAt: now,
+      status: "in-progress",
+      network: input.network,
+      wallet: input.wallet,
+      name: input.name,
+      symbol: input.symbol,
+      description: input.description,
+      royalty: input.royalty,
+      attributes: input.attributes,
+      recipients: input.recipients,
+      creators: input.creators,
+      isMutable: input.isMutable,
+      updateAuthority: input.updateAuthority,
+      tokenStandard: input.tokenStandard,
+      ruleSet: input.ruleSet,
+      program: input.program,
+      freezable: input.freezable,
+      soulbound: input.soulbound,
+      engine: input.engine,
+      collectionMint: input.collectionMint,
+      reveal: input.placeholderImage && {
+        placeholderFile: input.placeholderImage,
+        placeholderFileName: input.placeholderImage.name,
+        placeholderFileType: input.placeholderImage.type,
+      },
+      items: input.files.map((file, index) => ({
+        index,
+        fileName: file.name,
+        fileType: file.type,
+        file,
+      })),
+    }
+
+    await this.withStore<void>("readwrite", (store) => {
+      store.put(job)
+    })
+    return job
+  }
+
+  async getJob(id: string): Promise<MintJob | null> {
+    return this.withStore<MintJob | null>("readonly", (store, done) => {
+      const request = store.get(id)
+      request.onsuccess = () => done((request.result as MintJob | undefined) ?? null)
+    })
+  }
+
+  async listJobs(filter: { wallet?: string; network?: NetworkType; status?: MintJob["status"] } = {}) {
+    const jobs = await this.withStore<MintJob[]>("readonly", (store, done) => {
+      const request = store.getAll()
+      request.onsuccess = () => done(request.result as MintJob[])
+    })
+
+    return jobs
+      .filter((job) => !filter.wallet || job.wallet === filter.wallet)
+      .filter((job) => !filter.network || job.network === filter.network)
+      .filter((job) => !filter.status || job.status === filter.status)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  async updateJob(id: string, patch: Partial<Omit<MintJob, "id" | "items">>): Promise<MintJob> {
+    return this.updateJobRecord(id, (job) => Object.assign(job, patch))
+  }
+
+  async updateItem(id: string, index: number, patch: Partial<Omit<MintJobItem, "index">>): Promise<MintJob> {
+    return this.updateJobRecord(id, (job) => {
+      const item = job.items[index]
+      if (!item) {
+        throw createError(ERROR_CODES.VALIDATION_ERROR, `Mint job ${id} has no item ${index}`)
+      }
+      Object.assign(item, patch)
+    })
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    await this.withStore<void>("readwrite", (store) => {
+      store.delete(id)
+    })
+  }
+}
+
+export const mintJournal = new MintJournal()
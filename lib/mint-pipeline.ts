@@ -0,0 +1,346 @@
+import { CONFIG } from "./config"
+import type { ConfirmationState } from "./confirmation-tracker"
+
+export type PipelineItemState = "queued" | "running" | "retrying" | "succeeded" | "failed" | "skipped"
+
+export interface PipelineItemStatus {
+  index: number
+  state: PipelineItemState
+  attempt: number
+  error?: string
+  confirmation?: ConfirmationState // Of the item's latest transaction, filled in by the minting service
+}
+
+export interface PipelineOptions {
+  concurrency: number
+  maxRetries: number
+  onStatus?: (status: PipelineItemStatus, completed: number, total: number) => void
+  // Errors that should not be retried and stop any queued items from starting
+  isFatalError?: (error: unknown) => boolean
+}
+
+export interface PipelineResult<T> {
+  results: Array<T | undefined>
+  errors: Array<unknown>
+  stopped: boolean
+  // Why the run ended early: a fatal item error, or the wallet declining to sign a batch
+  stopReason?: "fatal" | "rejected"
+}
+
+// Rate limited attempts don't consume the retry budget, but we still give up eventually
+const MAX_RATE_LIMIT_RETRIES = 10
+const MAX_BACKOFF_MS = 30000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const getMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+export function isRateLimitError(error: unknown): boolean {
+  const message = getMessage(error).toLowerCase()
+  return message.includes("429") || message.includes("too many requests") || message.includes("rate limit")
+}
+
+export function isBlockhashError(error: unknown): boolean {
+  const message = getMessage(error).toLowerCase()
+  return message.includes("blockhash not found") || message.includes("block height exceeded")
+}
+
+// Shares one recent blockhash between all in-flight transactions and refreshes it when stale
+export class BlockhashCache<T> {
+  private current: { value: T; fetchedAt: number } | null = null
+  private pending: Promise<T> | null = null
+
+  constructor(
+    private readonly fetchBlockhash: () => Promise<T>,
+    private readonly maxAgeMs: number = CONFIG.MINTING.blockhashRefreshMs,
+  ) {}
+
+  async get(): Promise<T> {
+    if (this.current && Date.now() - this.current.fetchedAt < this.maxAgeMs) {
+      return this.current.value
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchBlockhash()
+        .then((value) => {
+          this.current = { value, fetchedAt: Date.now() }
+          return value
+        })
+        .finally(() => {
+          this.pending = null
+        })
+    }
+
+    return this.pending
+  }
+
+  invalidate() {
+    this.current = null
+  }
+}
+
+// Keeps each item's latest transaction state next to its pipeline status. A transaction finalizes after its
+// item has been reported as succeeded, so that status is reported again with the finalized state.
+export class ConfirmationLog {
+  private states = new Map<number, ConfirmationState>()
+  private reported = new Map<number, { status: PipelineItemStatus; completed: number }>()
+
+  constructor(private readonly onStatus: (status: PipelineItemStatus, completed: number) => void) {}
+
+  set(index: number, state: ConfirmationState) {
+    this.states.set(index, state)
+    const last = this.reported.get(index)
+    if (state === "finalized" && last?.status.state === "succeeded") {
+      this.onStatus({ ...last.status, confirmation: state }, last.completed)
+    }
+  }
+
+  // Passed to the pipeline as its onStatus
+  report = (status: PipelineItemStatus, completed: number) => {
+    this.reported.set(status.index, { status, completed })
+    this.onStatus({ ...status, confirmation: this.states.get(status.index) }, completed)
+  }
+}
+
+// Runs `worker` for every index in `indices` with at most `concurrency` items in flight. Failed items are
+// retried up to `maxRetries` times; RPC rate limiting pauses every lane and halves the
+// concurrency until requests start succeeding again.
+export async function runPipeline<T>(
+  indices: number[],
+  worker: (index: number, attempt: number) => Promise<T>,
+  options: PipelineOptions,
+): Promise<PipelineResult<T>> {
+  const { maxRetries, onStatus, isFatalError } = options
+  const total = indices.length
+  const concurrency = Math.max(1, Math.min(options.concurrency, total || 1))
+
+  const results: Array<T | undefined> = []
+  const errors: Array<unknown> = []
+  const queue = [...indices]
+
+  let completed = 0
+  let stopped = false
+  let activeLimit = concurrency
+  let backoffMs = 0
+  let backoffUntil = 0
+
+  const report = (status: PipelineItemStatus) => onStatus?.(status, completed, total)
+
+  const waitForBackoff = async () => {
+    while (Date.now() < backoffUntil) {
+      await sleep(backoffUntil - Date.now())
+    }
+  }
+
+  const processItem = async (index: number) => {
+    let attempt = 0
+    let rateLimitHits = 0
+
+    while (true) {
+      await waitForBackoff()
+      report({ index, state: attempt === 0 ? "running" : "retrying", attempt })
+
+      try {
+        results[index] = await worker(index, attempt)
+        completed++
+        report({ index, state: "succeeded", attempt })
+
+        // Slowly give lanes back once the RPC accepts requests again
+        backoffMs = 0
+        if (activeLimit < concurrency) activeLimit++
+        return
+      } catch (error) {
+        if (isRateLimitError(error) && rateLimitHits < MAX_RATE_LIMIT_RETRIES) {
+          rateLimitHits++
+          backoffMs = Math.min(MAX_BACKOFF_MS, Math.max(1000, backoffMs * 2))
+          backoffUntil = Math.max(backoffUntil, Date.now() + backoffMs)
+          activeLimit = Math.max(1, Math.floor(activeLimit / 2))
+          console.warn(`RPC rate limited on item ${index + 1}, backing off for ${backoffMs}ms`)
+          continue
+        }
+
+        const fatal = isFatalError?.(error) ?? false
+        attempt++
+
+        if (fatal || attempt > maxRetries) {
+          errors[index] = error
+          completed++
+          if (fatal) stopped = true
+          report({ index, state: "failed", attempt, error: getMessage(error) })
+          return
+        }
+
+        report({ index, state: "retrying", attempt, error: getMessage(error) })
+        await sleep(attempt * 2000)
+      }
+    }
+  }
+
+  const runLane = async (lane: number) => {
+    while (!stopped && queue.length > 0) {
+      // Lanes above the current limit idle while the RPC is throttling us
+      if (lane >= activeLimit) {
+        await sleep(500)
+        continue
+      }
+
+      const index = queue.shift()
+      if (index === undefined) return
+      await processItem(index)
+    }
+  }
+
+  queue.forEach((index) => report({ index, state: "queued", attempt: 0 }))
+  await Promise.all(Array.from({ length: concurrency }, (_, lane) => runLane(lane)))
+
+  // Anything still queued was never started because a fatal error stopped the pipeline
+  for (const index of queue) {
+    report({ index, state: "skipped", attempt: 0 })
+  }
+
+  return { results, errors, stopped, stopReason: stopped ? "fatal" : undefined }
+}
+
+// Only half a blockhash's lifetime is planned for; the rest covers the wallet prompt and slow confirmations
+const SIGN_BATCH_LIFETIME_SHARE = 0.5
+
+// How many pre-signed transactions sharing one blockhash can be sent and confirmed before it expires
+export function getSignBatchSize(options: {
+  remaining: number
+  blocksLeft: number
+  msPerTransaction: number
+  concurrency: number
+}): number {
+  const { remaining, blocksLeft, msPerTransaction, concurrency } = options
+  const lifetimeMs = blocksLeft * CONFIG.MINTING.msPerBlock * SIGN_BATCH_LIFETIME_SHARE
+  const fits = Math.floor((lifetimeMs / Math.max(1, msPerTransaction)) * concurrency)
+  return Math.max(1, Math.min(remaining, CONFIG.MINTING.maxSignBatchSize, fits))
+}
+
+export interface SignedBatchOptions<T, Prepared, Signed, Blockhash> extends PipelineOptions {
+  // A fresh blockhash and the number of blocks it stays valid for
+  getBlockhash: () => Promise<{ blockhash: Blockhash; blocksLeft: number }>
+  // Builds an item's transaction, or returns its result when nothing needs to be sent
+  prepare: (index: number, attempt: number) => Promise<{ prepared: Prepared } | { result: T }>
+  // Signs every transaction in a chunk against one blockhash with a single wallet prompt
+  signAll: (prepared: Prepared[], blockhash: Blockhash) => Promise<Signed[]>
+  // Sends and confirms one signed transaction
+  send: (index: number, signed: Signed, blockhash: Blockhash) => Promise<T>
+}
+
+// Like runPipeline, but items are prepared in chunks that the wallet approves all at once. Each chunk
+// shares a fresh blockhash and is sized from how long earlier chunks took to confirm, so it can land
+// before the blockhash expires. Failed items are rebuilt in a later chunk; a rejected prompt stops the run
+// and leaves the chunk queued for a later resume.
+export async function runSignedBatches<T, Prepared, Signed, Blockhash>(
+  indices: number[],
+  options: SignedBatchOptions<T, Prepared, Signed, Blockhash>,
+): Promise<PipelineResult<T>> {
+  const { concurrency, maxRetries, onStatus, isFatalError, getBlockhash, prepare, signAll, send } = options
+  const total = indices.length
+
+  const results: Array<T | undefined> = []
+  const errors: Array<unknown> = []
+  const attempts = new Map<number, number>()
+  const queue = [...indices]
+
+  let completed = 0
+  let stopReason: PipelineResult<T>["stopReason"]
+  let msPerTransaction: number = CONFIG.MINTING.estimatedConfirmMs
+
+  const report = (status: PipelineItemStatus) => onStatus?.(status, completed, total)
+
+  const succeed = (index: number, result: T) => {
+    results[index] = result
+    completed++
+    report({ index, state: "succeeded", attempt: attempts.get(index) ?? 0 })
+  }
+
+  const fail = (index: number, error: unknown, fatal = isFatalError?.(error) ?? false) => {
+    const attempt = (attempts.get(index) ?? 0) + 1
+    attempts.set(index, attempt)
+
+    if (fatal || attempt > maxRetries) {
+      errors[index] = error
+      completed++
+      if (fatal) stopReason = "fatal"
+      report({ index, state: "failed", attempt, error: getMessage(error) })
+    } else {
+      report({ index, state: "retrying", attempt, error: getMessage(error) })
+      queue.push(index)
+    }
+  }
+
+  queue.forEach((index) => report({ index, state: "queued", attempt: 0 }))
+
+  // Chunks are sized from the previous blockhash's lifetime; the blockhash itself is only fetched once the
+  // chunk is built, so building doesn't eat into it
+  let { blocksLeft } = await getBlockhash()
+
+  while (!stopReason && queue.length > 0) {
+    const chunk = queue.splice(
+      0,
+      getSignBatchSize({ remaining: queue.length, blocksLeft, msPerTransaction, concurrency }),
+    )
+
+    const prepared: Array<{ index: number; prepared: Prepared }> = []
+    for (const index of chunk) {
+      const attempt = attempts.get(index) ?? 0
+      report({ index, state: attempt === 0 ? "running" : "retrying", attempt })
+      try {
+        const item = await prepare(index, attempt)
+        if ("result" in item) {
+          succeed(index, item.result)
+        } else {
+          prepared.push({ index, prepared: item.prepared })
+        }
+      } catch (error) {
+        fail(index, error)
+      }
+    }
+    if (prepared.length === 0) continue
+
+    const latest = await getBlockhash()
+    const blockhash = latest.blockhash
+    blocksLeft = latest.blocksLeft
+
+    let signed: Signed[]
+    try {
+      signed = await signAll(
+        prepared.map((item) => item.prepared),
+        blockhash,
+      )
+    } catch (error) {
+      // Nothing was signed, so the chunk isn't an attempt; it goes back in front of the queue untouched
+      console.warn("Wallet declined to sign the batch, stopping:", error)
+      queue.unshift(...prepared.map((item) => item.index))
+      stopReason = "rejected"
+      break
+    }
+
+    // Sending goes through the regular pipeline for its rate-limit handling; retries rebuild the transaction
+    const startedAt = Date.now()
+    const sent = await runPipeline(
+      prepared.map((_, i) => i),
+      (i) => send(prepared[i].index, signed[i], blockhash),
+      { concurrency, maxRetries: 0 },
+    )
+    msPerTransaction = (Date.now() - startedAt) / Math.ceil(prepared.length / concurrency)
+
+    prepared.forEach((item, i) => {
+      const result = sent.results[i]
+      if (result !== undefined) {
+        succeed(item.index, result)
+      } else {
+        fail(item.index, sent.errors[i])
+      }
+    })
+  }
+
+  // Anything still queued was never sent; after a rejected prompt it stays queued so the run can be resumed
+  for (const index of queue) {
+    report({ index, state: stopReason === "rejected" ? "queued" : "skipped", attempt: attempts.get(index) ?? 0 })
+  }
+
+  return { results, errors, stopped: !!stopReason, stopReason }
+}
@@ -0,0 +1,106 @@
+import type { EnhancedMintResult } from "./enhanced-metaplex-service"
+import type { CreatorShare, NftProgram } from "./validation"
+import type { MintingEngineId } from "./minting-engine"
+import { escapeCsv } from "./csv"
+
+export type VerificationField = "mint" | "metadata" | "name" | "uri" | "creators" | "collection" | "owner"
+
+export interface VerificationCheck {
+  field: VerificationField
+  passed: boolean
+  expected: string
+  actual: string
+}
+
+// What a minted NFT should look like on-chain; fields left out aren't checked
+export interface MintExpectation {
+  name?: string
+  uri: string
+  owner: string
+  creators?: CreatorShare[]
+  collection?: string
+}
+
+export interface MintVerification {
+  mintAddress: string
+  index?: number
+  status: "passed" | "failed" | "skipped"
+  checks: VerificationCheck[]
+  error?: string
+}
+
+// The mint as the form described it, shared by every NFT in a batch
+export interface MintIntent {
+  wallet: string // The minting wallet, default owner and creator
+  program?: NftProgram
+  name?: string // Left out when the name isn't ours to choose, e.g. prints copying their master edition
+  numbered?: boolean // Collection NFTs are named "<name> #n"
+  recipients?: string[] // Owner per batch position, falling back to the wallet
+  creators?: CreatorShare[] // Left out to skip the creators check
+  collection?: string
+  engine?: MintingEngineId // Token Metadata only: the engine that minted, which also reads the NFTs back
+}
+
+export function buildExpectations(
+  results: EnhancedMintResult[],
+  intent: MintIntent,
+): Array<{ result: EnhancedMintResult; expected: MintExpectation }> {
+  return results.map((result, position) => {
+    const index = result.index ?? position
+    return {
+      result,
+      expected: {
+        name: intent.name && (intent.numbered ? `${intent.name} #${index + 1}` : intent.name),
+        uri: result.metadataUri,
+        owner: intent.recipients?.[index]?.trim() || intent.wallet,
+        creators:
+          intent.creators && (intent.creators.length > 0 ? intent.creators : [{ address: intent.wallet, share: 100 }]),
+        collection: intent.collection,
+      },
+    }
+  })
+}
+
+export function checkExists(field: VerificationField, address: string, exists: boolean): VerificationCheck {
+  return { field, passed: exists, expected: address, actual: exists ? address : "missing" }
+}
+
+export function checkField(field: VerificationField, expected: string, actual: string | undefined): VerificationCheck {
+  return { field, passed: actual === expected, expected, actual: actual ?? "missing" }
+}
+
+// Creators compare as "address:share" pairs in on-chain order
+export function formatCreators(creators: Array<{ address: string; share: number }>): string {
+  return creators.map((creator) => `${creator.address}:${creator.share}`).join(" ")
+}
+
+export function summarizeChecks(result: EnhancedMintResult, checks: VerificationCheck[]): MintVerification {
+  return {
+    mintAddress: result.mintAddress,
+    index: result.index,
+    status: checks.every((check) => check.passed) ? "passed" : "failed",
+    checks,
+  }
+}
+
+export function generateVerificationReport(verifications: MintVerification[]): string {
+  const lines = ["mint_address,index,status,failed_checks,error"]
+  for (const verification of verifications) {
+    const failedChecks = verification.checks
+      .filter((check) => !check.passed)
+      .map((check) => `${check.field}: expected ${check.expected}, found ${check.actual}`)
+      .join("; ")
+    lines.push(
+      [
+        verification.mintAddress,
+        verification.index !== undefined ? verification.index + 1 : "",
+        verification.status,
+        failedChecks,
+        verification.error,
+      ]
+        .map(escapeCsv)
+        .join(","),
+    )
+  }
+  return lines.join("\n")
+}
@@ -0,0 +1,263 @@
+import { CONFIG, type NetworkType } from "./config"
+import type { PriorityFeeStrategy } from "./compute-budget"
+import { checkExists, type MintVerification } from "./mint-verification"
+import type { NFTFormData, NftTokenStandard } from "./validation"
+import {
+  enhancedMetaplexService,
+  type BatchMintResult,
+  type CollectionMintOptions,
+  type EnhancedMintResult,
+  type SingleMintOptions,
+  type VerifyMintsOptions,
+} from "./enhanced-metaplex-service"
+import { metaplexNFTService } from "./metaplex-nft-service"
+import { metaplexMintingService } from "./metaplex-minting-service"
+import { simpleNFTService } from "./simple-nft-service"
+import { mintingService } from "./minting-service"
+import { simpleMintingService } from "./simple-minting-service"
+
+export type MintingEngineId =
+  "enhanced" | "metaplex-create-nft" | "metaplex-manual" | "simple-nft" | "spl-token" | "spl-token-simple"
+
+export const DEFAULT_MINTING_ENGINE: MintingEngineId = "enhanced"
+
+export interface MintingEngineCapabilities {
+  onChainMetadata: boolean // Writes a Token Metadata account; without it NFTs are bare SPL tokens
+  collections: boolean // Batches are grouped under a verified collection NFT
+  // Recipients, creators, update authority, immutability, programmable NFTs and priority fees
+  customOptions: boolean
+}
+
+export interface EngineCostOptions {
+  mintType: "single" | "collection"
+  quantity?: number
+  includeParentNft?: boolean // The collection NFT still has to be created
+  tokenStandard?: NftTokenStandard
+  priorityFee?: PriorityFeeStrategy
+}
+
+// Token Metadata mints go through one of these, so a strategy that breaks on a network can be swapped out
+export interface MintingEngine {
+  id: MintingEngineId
+  name: string
+  description: string
+  capabilities: MintingEngineCapabilities
+  estimateCost(network: NetworkType, options: EngineCostOptions): Promise<number>
+  mintSingle(options: SingleMintOptions): Promise<EnhancedMintResult>
+  mintBatch?(options: CollectionMintOptions): Promise<BatchMintResult> // Engines with the collections capability
+  verify(options: VerifyMintsOptions): Promise<MintVerification[]>
+}
+
+const enhancedEngine: MintingEngine = {
+  id: "enhanced",
+  name: "Enhanced Metaplex",
+  description: "Token Metadata through UMI with collections, pipelined batches, priority fees and recovery.",
+  capabilities: { onChainMetadata: true, collections: true, customOptions: true },
+  estimateCost: (network, options) =>
+    enhancedMetaplexService.estimateMintingCost(
+      network,
+      options.mintType,
+      options.quantity,
+      options.includeParentNft,
+      options.priorityFee,
+      options.tokenStandard,
+    ),
+  mintSingle: (options) => enhancedMetaplexService.mintSingleNFT(options),
+  mintBatch: (options) => enhancedMetaplexService.mintCollection(options),
+  verify: (options) => enhancedMetaplexService.verifyMints(options),
+}
+
+// The result fields every legacy service returns
+interface LegacyMintResult {
+  mintAddress: string
+  signature: string
+  explorerUrl: string
+  tokenAccount: string
+  metadataAddress?: string
+}
+
+interface LegacyServiceAdapter {
+  estimateMintingCost(network: NetworkType): Promise<number>
+  mintNFT(options: SingleMintOptions): Promise<LegacyMintResult>
+  verifyNFT?(mintAddress: string, network: NetworkType): Promise<boolean>
+}
+
+// Wraps one of the older single-NFT services. They mint one NFT per call to the connected wallet and
+// can't group NFTs into a collection.
+class LegacyMintingEngine implements MintingEngine {
+  constructor(
+    readonly id: MintingEngineId,
+    readonly name: string,
+    readonly description: string,
+    readonly capabilities: MintingEngineCapabilities,
+    private readonly service: LegacyServiceAdapter,
+  ) {}
+
+  async estimateCost(network: NetworkType, options: EngineCostOptions): Promise<number> {
+    return (await this.service.estimateMintingCost(network)) * (options.quantity ?? 1)
+  }
+
+  async mintSingle(options: SingleMintOptions): Promise<EnhancedMintResult> {
+    const result = await this.service.mintNFT(options)
+    return {
+      mintAddress: result.mintAddress,
+      signature: result.signature,
+      explorerUrl: result.explorerUrl,
+      tokenAccount: result.tokenAccount,
+      metadataAddress: result.metadataAddress ?? "", // Bare SPL tokens have no metadata account
+      metadataUri: options.metadataUri,
+    }
+  }
+
+  async verify(options: VerifyMintsOptions): Promise<MintVerification[]> {
+    if (this.capabilities.onChainMetadata) return enhancedMetaplexService.verifyMints(options)
+
+    // Bare SPL tokens only have a mint to check
+    const { verifyNFT } = this.service
+    return Promise.all(
+      options.items.map(async ({ result }): Promise<MintVerification> => {
+        if (!verifyNFT) {
+          return {
+            mintAddress: result.mintAddress,
+            index: result.index,
+            status: "skipped",
+            checks: [],
+            error: `${this.name} can't read its NFTs back`,
+          }
+        }
+        const exists = await verifyNFT(result.mintAddress, options.network)
+        return {
+          mintAddress: result.mintAddress,
+          index: result.index,
+          status: exists ? "passed" : "failed",
+          checks: [checkExists("mint", result.mintAddress, exists)],
+        }
+      }),
+    )
+  }
+}
+
+const legacyCapabilities = (onChainMetadata: boolean): MintingEngineCapabilities => ({
+  onChainMetadata,
+  collections: false,
+  customOptions: false,
+})
+
+export const MINTING_ENGINES: MintingEngine[] = [
+  enhancedEngine,
+  new LegacyMintingEngine(
+    "metaplex-create-nft",
+    "Metaplex createNft",
+    "Token Metadata NFT with a master edition from a single UMI createNft call.",
+    legacyCapabilities(true),
+    {
+      estimateMintingCost: (network) => metaplexNFTService.estimateMintingCost(network),
+      mintNFT: (options) => metaplexNFTService.mintNFT(options),
+      verifyNFT: (mintAddress, network) => metaplexNFTService.verifyNFT(mintAddress, network),
+    },
+  ),
+  new LegacyMintingEngine(
+    "metaplex-manual",
+    "Manual Token Metadata",
+    "Builds the mint with web3.js and a hand-serialized CreateMetadataAccountV3, without UMI.",
+    legacyCapabilities(true),
+    {
+      estimateMintingCost: (network) => metaplexMintingService.estimateMintingCost(network),
+      mintNFT: (options) =>
+        metaplexMintingService.mintNFT({ ...options, symbol: options.symbol || CONFIG.NFT.defaultSymbol }),
+      verifyNFT: (mintAddress, network) => metaplexMintingService.verifyNFT(mintAddress, network),
+    },
+  ),
+  new LegacyMintingEngine(
+    "simple-nft",
+    "Simple NFT",
+    "Supply-one SPL token without on-chain metadata; the metadata URI is only kept off-chain.",
+    legacyCapabilities(false),
+    {
+      estimateMintingCost: (network) => simpleNFTService.estimateMintingCost(network),
+      mintNFT: (options) =>
+        simpleNFTService.mintNFT({ ...options, symbol: options.symbol || CONFIG.NFT.defaultSymbol }),
+      verifyNFT: (mintAddress, network) => simpleNFTService.verifyNFT(mintAddress, network),
+    },
+  ),
+  new LegacyMintingEngine(
+    "spl-token",
+    "SPL token",
+    "Supply-one SPL token in one transaction, for networks where the metadata programs misbehave.",
+    legacyCapabilities(false),
+    {
+      estimateMintingCost: (network) => mintingService.estimateMintingCost(network),
+      mintNFT: (options) =>
+        mintingService.mintNFT({
+          ...options,
+          symbol: options.symbol || CONFIG.NFT.defaultSymbol,
+          uri: options.metadataUri,
+        }),
+      verifyNFT: (mintAddress, network) => mintingService.verifyNFT(mintAddress, network),
+    },
+  ),
+  new LegacyMintingEngine(
+    "spl-token-simple",
+    "SPL token (minimal)",
+    "The original minimal SPL token mint, kept as a last resort.",
+    legacyCapabilities(false),
+    {
+      estimateMintingCost: (network) => simpleMintingService.estimateMintingCost(network),
+      mintNFT: (options) =>
+        simpleMintingService.mintSimpleNFT({
+          ...options,
+          symbol: options.symbol || CONFIG.NFT.defaultSymbol,
+          uri: options.metadataUri,
+        }),
+    },
+  ),
+]
+
+export function getMintingEngine(id: MintingEngineId = DEFAULT_MINTING_ENGINE): MintingEngine {
+  return MINTING_ENGINES.find((engine) => engine.id === id) ?? enhancedEngine
+}
+
+// Form options the engine would silently ignore, reported before anything is uploaded
+export function getUnsupportedOptions(
+  engine: MintingEngine,
+  formData: NFTFormData,
+  // `switchHint` tells the user where to pick another engine
+  options: { priorityFee?: PriorityFeeStrategy; switchHint?: string } = {},
+): string[] {
+  const { switchHint = "pick another engine under Advanced Settings" } = options
+  const errors: string[] = []
+  if (formData.mintType === "collection" && !engine.capabilities.collections) {
+    errors.push(`${engine.name} can't mint collections; ${switchHint}`)
+  }
+  if (!engine.capabilities.customOptions) {
+    const unsupported = [
+      (formData.recipientAddress?.trim() || (formData.recipients?.length ?? 0) > 0) && "recipients",
+      (formData.creators?.length ?? 0) > 0 && "creators",
+      formData.updateAuthority?.trim() && "update authority",
+      formData.isMutable === false && "immutable metadata",
+      formData.tokenStandard === "ProgrammableNonFungible" && "programmable NFTs",
+      options.priorityFee && options.priorityFee.type !== "none" && "priority fees",
+    ].filter((option): option is string => !!option)
+    if (unsupported.length > 0) {
+      errors.push(`${engine.name} doesn't support ${unsupported.join(", ")}`)
+    }
+  }
+  return errors
+}
+
+// The chosen engine per network, remembered in the browser
+const ENGINE_STORAGE_KEY = "minting-engines"
+
+export function loadEngineSelection(): Partial<Record<NetworkType, MintingEngineId>> {
+  if (typeof localStorage === "undefined") return {}
+  try {
+    return JSON.parse(localStorage.getItem(ENGINE_STORAGE_KEY) || "{}")
+  } catch {
+    return {}
+  }
+}
+
+export function saveEngineSelection(selection: Partial<Record<NetworkType, MintingEngineId>>) {
+  if (typeof localStorage === "undefined") return
+  localStorage.setItem(ENGINE_STORAGE_KEY, JSON.stringify(selection))
+}
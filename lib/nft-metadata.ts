@@ -0,0 +1,43 @@
+import { CONFIG } from "./config"
+import type { CreatorShare } from "./validation"
+
+// Off-chain JSON metadata following the Metaplex token metadata standard
+export function buildMetadataJson({
+  name,
+  symbol,
+  description,
+  imageUri,
+  fileType,
+  attributes,
+  royalty,
+  creators,
+  wallet,
+}: {
+  name: string
+  symbol?: string
+  description: string
+  imageUri: string
+  fileType: string
+  attributes: Array<{ trait_type: string; value: string }>
+  royalty: number
+  creators?: CreatorShare[]
+  wallet: string
+}) {
+  return {
+    name,
+    symbol: symbol || CONFIG.NFT.defaultSymbol,
+    description,
+    image: imageUri,
+    attributes,
+    properties: {
+      files: [{ uri: imageUri, type: fileType }],
+      category: "image",
+    },
+    seller_fee_basis_points: royalty,
+    // Mirrors the on-chain creators: only the connected wallet signs, so it's the only verified creator
+    creators:
+      creators && creators.length > 0
+        ? creators.map(({ address, share }) => ({ address, verified: address === wallet, share }))
+        : [{ address: wallet, verified: true, share: 100 }],
+  }
+}
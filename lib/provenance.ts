@@ -0,0 +1,12 @@
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("")
+
+export async function hashFile(file: Blob): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", await file.arrayBuffer()))
+}
+
+// SHA-256 of every image hash concatenated in token order. Published before the reveal, it proves the
+// art and its order were fixed at mint time.
+export async function computeProvenanceHash(imageHashes: string[]): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(imageHashes.join(""))))
+}
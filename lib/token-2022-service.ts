@@ -0,0 +1,399 @@
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  type TransactionInstruction,
+} from "@solana/web3.js"
+import {
+  AuthorityType,
+  ExtensionType,
+  LENGTH_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TYPE_SIZE,
+  TokenAccountNotFoundError,
+  createAssociatedTokenAccountInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeMintInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createMintToInstruction,
+  createSetAuthorityInstruction,
+  getAccountLen,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getMint,
+  getMintLen,
+  getTokenMetadata,
+} from "@solana/spl-token"
+import {
+  createInitializeInstruction,
+  createUpdateAuthorityInstruction,
+  createUpdateFieldInstruction,
+  pack,
+  type TokenMetadata,
+} from "@solana/spl-token-metadata"
+import type { SignerWalletAdapter, WalletAdapter } from "@solana/wallet-adapter-base"
+import bs58 from "bs58"
+import { CONFIG, type NetworkType, getTransactionUrl, isEclipseNetwork } from "./config"
+import { createError, ERROR_CODES, isNFTMinterError } from "./errors"
+import {
+  resolvePriorityFee,
+  getComputeBudgetInstructions,
+  getPriorityFeeLamports,
+  withComputeBudgetInstructions,
+  type PriorityFeeStrategy,
+} from "./compute-budget"
+import { confirmationTracker } from "./confirmation-tracker"
+import type { EnhancedMintResult } from "./enhanced-metaplex-service"
+import { checkExists, checkField, type MintExpectation, type VerificationCheck } from "./mint-verification"
+
+export interface Token2022MintOptions {
+  name: string
+  symbol?: string // Defaults to "NFT"
+  metadataUri: string
+  attributes?: Array<{ trait_type: string; value: string }> // Stored as additional metadata fields
+  wallet: WalletAdapter
+  network: NetworkType
+  recipientAddress?: string
+  isMutable?: boolean // Immutable NFTs have their metadata update authority removed
+  updateAuthority?: string // Defaults to the connected wallet
+  soulbound?: boolean // Adds the non-transferable extension, so the NFT stays with its first holder
+  priorityFee?: PriorityFeeStrategy // Defaults to no priority fee
+  onProgress?: (message: string) => void
+}
+
+export interface Token2022MetadataInput {
+  name: string
+  symbol?: string
+  uri?: string
+  attributes?: Array<{ trait_type: string; value: string }>
+}
+
+// Metadata URIs aren't known until upload, so estimates are sized for a typical gateway URI
+const ESTIMATED_URI = `${CONFIG.PINATA.gateway}/${"x".repeat(59)}`
+
+// Legacy transaction size limit; extra metadata fields spill over into follow-up transactions
+const MAX_TRANSACTION_SIZE = 1232
+
+// Associated token accounts for Token-2022 mints always carry the immutable owner extension
+const TOKEN_ACCOUNT_SIZE = getAccountLen([ExtensionType.ImmutableOwner])
+// Token accounts for non-transferable mints also carry the non-transferable account extension
+const SOULBOUND_TOKEN_ACCOUNT_SIZE = getAccountLen([ExtensionType.ImmutableOwner, ExtensionType.NonTransferableAccount])
+
+class Token2022Service {
+  private getConnection(network: NetworkType): Connection {
+    return new Connection(CONFIG.NETWORKS[network].url, "confirmed")
+  }
+
+  // Attribute names become metadata keys, so a repeated trait keeps its last value
+  private buildTokenMetadata(
+    mint: PublicKey,
+    updateAuthority: PublicKey,
+    input: Token2022MetadataInput,
+  ): TokenMetadata {
+    const additionalMetadata = new Map<string, string>()
+    for (const attribute of input.attributes ?? []) {
+      additionalMetadata.set(attribute.trait_type, attribute.value)
+    }
+
+    return {
+      mint,
+      updateAuthority,
+      name: input.name,
+      symbol: input.symbol || CONFIG.NFT.defaultSymbol,
+      uri: input.uri ?? ESTIMATED_URI,
+      additionalMetadata: Array.from(additionalMetadata.entries()),
+    }
+  }
+
+  // The mint is created with room for its fixed extensions only, but must be funded for the metadata
+  // the token metadata extension writes into it afterwards
+  private getMintAccountSizes(metadata: TokenMetadata, soulbound: boolean): { mintLen: number; totalLen: number } {
+    const mintLen = getMintLen(
+      soulbound ? [ExtensionType.MetadataPointer, ExtensionType.NonTransferable] : [ExtensionType.MetadataPointer],
+    )
+    return { mintLen, totalLen: mintLen + TYPE_SIZE + LENGTH_SIZE + pack(metadata).length }
+  }
+
+  async estimateMintingCost(
+    network: NetworkType,
+    metadata: Token2022MetadataInput,
+    priorityFee: PriorityFeeStrategy = { type: "none" },
+    soulbound = false,
+  ): Promise<number> {
+    try {
+      const connection = this.getConnection(network)
+      const placeholder = PublicKey.default
+      const { totalLen } = this.getMintAccountSizes(
+        this.buildTokenMetadata(placeholder, placeholder, metadata),
+        soulbound,
+      )
+
+      const mintRent = await connection.getMinimumBalanceForRentExemption(totalLen)
+      const ataRent = await connection.getMinimumBalanceForRentExemption(
+        soulbound ? SOULBOUND_TOKEN_ACCOUNT_SIZE : TOKEN_ACCOUNT_SIZE,
+      )
+      const microLamports = await resolvePriorityFee(connection, priorityFee)
+      const transactionFees =
+        5000 * 2 + getPriorityFeeLamports(microLamports, CONFIG.PRIORITY_FEES.estimatedUnitsPerMint)
+
+      return mintRent + ataRent + transactionFees
+    } catch (error) {
+      console.error("Failed to estimate cost:", error)
+      return 0.005 * LAMPORTS_PER_SOL
+    }
+  }
+
+  async mintNFT(options: Token2022MintOptions): Promise<EnhancedMintResult> {
+    const {
+      name,
+      symbol,
+      metadataUri,
+      attributes,
+      wallet,
+      network,
+      recipientAddress,
+      isMutable = true,
+      updateAuthority,
+      soulbound = false,
+      priorityFee,
+      onProgress,
+    } = options
+
+    if (!wallet.publicKey) {
+      throw createError(ERROR_CODES.WALLET_NOT_CONNECTED, "Wallet not connected")
+    }
+    // The mint keypair co-signs, so the wallet has to sign rather than send the transaction itself
+    if (!("signTransaction" in wallet)) {
+      throw createError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `${wallet.name} can't sign transactions for other apps to send, which Token-2022 mints need`,
+      )
+    }
+    const signer = wallet as SignerWalletAdapter
+
+    try {
+      const connection = this.getConnection(network)
+      const payer = wallet.publicKey
+      const recipient = recipientAddress ? new PublicKey(recipientAddress) : payer
+      const finalUpdateAuthority = updateAuthority ? new PublicKey(updateAuthority) : payer
+
+      const mintKeypair = Keypair.generate()
+      const mint = mintKeypair.publicKey
+      const metadata = this.buildTokenMetadata(mint, payer, { name, symbol, uri: metadataUri, attributes })
+      const { mintLen, totalLen } = this.getMintAccountSizes(metadata, soulbound)
+
+      onProgress?.("Checking wallet balance...")
+      const mintRent = await connection.getMinimumBalanceForRentExemption(totalLen)
+      const ataRent = await connection.getMinimumBalanceForRentExemption(
+        soulbound ? SOULBOUND_TOKEN_ACCOUNT_SIZE : TOKEN_ACCOUNT_SIZE,
+      )
+      const balance = await connection.getBalance(payer)
+      if (balance < mintRent + ataRent + 5000 * 2) {
+        throw createError(
+          ERROR_CODES.INSUFFICIENT_FUNDS,
+          `Insufficient funds. Need at least ${((mintRent + ataRent + 5000 * 2) / LAMPORTS_PER_SOL).toFixed(4)} ${isEclipseNetwork(network) ? "ETH" : "SOL"}`,
+        )
+      }
+
+      const tokenAccount = getAssociatedTokenAddressSync(mint, recipient, true, TOKEN_2022_PROGRAM_ID)
+
+      // The pointer and mint must be initialized before the metadata, which the mint then hosts itself
+      const mintInstructions: TransactionInstruction[] = [
+        SystemProgram.createAccount({
+          fromPubkey: payer,
+          newAccountPubkey: mint,
+          space: mintLen,
+          lamports: mintRent,
+          programId: TOKEN_2022_PROGRAM_ID,
+        }),
+        createInitializeMetadataPointerInstruction(mint, finalUpdateAuthority, mint, TOKEN_2022_PROGRAM_ID),
+        // Tokens of a non-transferable mint can only ever be burned, never moved
+        ...(soulbound ? [createInitializeNonTransferableMintInstruction(mint, TOKEN_2022_PROGRAM_ID)] : []),
+        createInitializeMintInstruction(mint, 0, payer, null, TOKEN_2022_PROGRAM_ID),
+        createInitializeInstruction({
+          programId: TOKEN_2022_PROGRAM_ID,
+          metadata: mint,
+          updateAuthority: payer,
+          mint,
+          mintAuthority: payer,
+          name: metadata.name,
+          symbol: metadata.symbol,
+          uri: metadata.uri,
+        }),
+        createAssociatedTokenAccountInstruction(payer, tokenAccount, recipient, mint, TOKEN_2022_PROGRAM_ID),
+        createMintToInstruction(mint, tokenAccount, payer, 1, [], TOKEN_2022_PROGRAM_ID),
+        // Nobody can ever mint a second token
+        createSetAuthorityInstruction(mint, payer, AuthorityType.MintTokens, null, [], TOKEN_2022_PROGRAM_ID),
+      ]
+
+      const metadataInstructions: TransactionInstruction[] = metadata.additionalMetadata.map(([field, value]) =>
+        createUpdateFieldInstruction({
+          programId: TOKEN_2022_PROGRAM_ID,
+          metadata: mint,
+          updateAuthority: payer,
+          field,
+          value,
+        }),
+      )
+      if (!isMutable || !finalUpdateAuthority.equals(payer)) {
+        metadataInstructions.push(
+          createUpdateAuthorityInstruction({
+            programId: TOKEN_2022_PROGRAM_ID,
+            metadata: mint,
+            oldAuthority: payer,
+            newAuthority: isMutable ? finalUpdateAuthority : null,
+          }),
+        )
+      }
+
+      const priorityFeeMicroLamports = await resolvePriorityFee(connection, priorityFee)
+      const groups = this.packInstructions(
+        payer,
+        getComputeBudgetInstructions({
+          unitLimit: CONFIG.PRIORITY_FEES.fallbackUnitLimit,
+          microLamports: priorityFeeMicroLamports,
+        }),
+        [mintInstructions, metadataInstructions],
+      )
+
+      let mintSignature = ""
+      for (const [index, group] of groups.entries()) {
+        onProgress?.(
+          index === 0 ? "Creating Token-2022 NFT..." : `Writing metadata fields (${index} of ${groups.length - 1})...`,
+        )
+
+        // Metadata fields are written to the mint, so each transaction is only sized once the one before landed
+        const { instructions } = await withComputeBudgetInstructions(connection, payer, group, priorityFeeMicroLamports)
+        const transaction = new Transaction().add(...instructions)
+        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash()
+        transaction.recentBlockhash = blockhash
+        transaction.feePayer = payer
+        if (index === 0) transaction.partialSign(mintKeypair)
+
+        const signedTransaction = await signer.signTransaction(transaction)
+        const signature = bs58.encode(signedTransaction.signature!)
+        await confirmationTracker.track({
+          endpoint: connection.rpcEndpoint,
+          rawTransaction: signedTransaction.serialize(),
+          signature,
+          lastValidBlockHeight,
+        })
+
+        if (index === 0) mintSignature = signature
+      }
+
+      onProgress?.("NFT created successfully!")
+
+      return {
+        mintAddress: mint.toString(),
+        signature: mintSignature,
+        explorerUrl: getTransactionUrl(mintSignature, network),
+        metadataAddress: mint.toString(), // The metadata pointer points at the mint itself
+        tokenAccount: tokenAccount.toString(),
+        metadataUri,
+        ...(soulbound && { soulbound }),
+      }
+    } catch (error) {
+      console.error("Token-2022 NFT minting failed:", error)
+
+      // The tracker's errors already say where the transaction ended up
+      if (isNFTMinterError(error) && error.details?.confirmationState) throw error
+      if (error instanceof Error) {
+        if (error.message.includes("insufficient funds") || error.message.includes("Insufficient funds")) {
+          throw createError(ERROR_CODES.INSUFFICIENT_FUNDS, error.message)
+        }
+        if (error.message.includes("User rejected")) {
+          throw createError(ERROR_CODES.TRANSACTION_FAILED, "Transaction was rejected by user")
+        }
+        if (error.message.includes("Simulation failed")) {
+          throw createError(ERROR_CODES.TRANSACTION_FAILED, `Transaction simulation failed: ${error.message}`)
+        }
+      }
+
+      throw createError(
+        ERROR_CODES.MINT_FAILED,
+        `Token-2022 NFT minting failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      )
+    }
+  }
+
+  // Reads the NFT back from its mint and token account. Token-2022 NFTs have no creators or collection.
+  async verifyMint(
+    network: NetworkType,
+    result: EnhancedMintResult,
+    expected: MintExpectation,
+  ): Promise<VerificationCheck[]> {
+    const connection = this.getConnection(network)
+    const mint = new PublicKey(result.mintAddress)
+    const missing = (error: unknown) => {
+      if (error instanceof TokenAccountNotFoundError) return null
+      throw error
+    }
+
+    const [mintInfo, metadata, account] = await Promise.all([
+      getMint(connection, mint, "confirmed", TOKEN_2022_PROGRAM_ID).catch(missing),
+      getTokenMetadata(connection, mint, "confirmed", TOKEN_2022_PROGRAM_ID).catch(missing),
+      getAccount(connection, new PublicKey(result.tokenAccount), "confirmed", TOKEN_2022_PROGRAM_ID).catch(missing),
+    ])
+
+    const checks = [
+      checkField("mint", "supply 1", mintInfo ? `supply ${mintInfo.supply}` : undefined),
+      checkExists("metadata", result.metadataAddress, !!metadata),
+    ]
+    if (metadata) {
+      if (expected.name !== undefined) checks.push(checkField("name", expected.name, metadata.name))
+      checks.push(checkField("uri", expected.uri, metadata.uri))
+    }
+    checks.push(
+      checkField(
+        "owner",
+        expected.owner,
+        account
+          ? Number(account.amount) === 1
+            ? account.owner.toString()
+            : `${account.owner} (balance ${account.amount})`
+          : undefined,
+      ),
+    )
+
+    return checks
+  }
+
+  // Groups instructions into as few transactions as fit the size limit alongside the compute budget
+  // instructions. The first group always shares a transaction so the mint is never left half initialized;
+  // later instructions fill follow-ups in order.
+  private packInstructions(
+    payer: PublicKey,
+    budgetInstructions: TransactionInstruction[],
+    [firstGroup, rest]: [TransactionInstruction[], TransactionInstruction[]],
+  ): TransactionInstruction[][] {
+    const fits = (instructions: TransactionInstruction[]) => {
+      const transaction = new Transaction().add(...budgetInstructions, ...instructions)
+      transaction.feePayer = payer
+      transaction.recentBlockhash = PublicKey.default.toBase58()
+      try {
+        const size = transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).length
+        return size <= MAX_TRANSACTION_SIZE
+      } catch {
+        return false // web3.js refuses to serialize oversized transactions
+      }
+    }
+
+    const groups = [firstGroup]
+    for (const instruction of rest) {
+      const current = groups[groups.length - 1]
+      if (fits([...current, instruction])) {
+        groups[groups.length - 1] = [...current, instruction]
+      } else {
+        groups.push([instruction])
+      }
+    }
+
+    return groups
+  }
+}
+
+export const token2022Service = new Token2022Service()
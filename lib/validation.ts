@@ -6,18 +6,49 @@ export interface ValidationResult {
   errors: string[]
 }
 
+export interface CreatorShare {
+  address: string
+  share: number // Percentage of royalties, all creators must add up to 100
+}
+
+// Token Metadata standards we can mint; programmable NFTs enforce royalties through a rule set
+export type NftTokenStandard = "NonFungible" | "ProgrammableNonFungible"
+
+// Token Metadata mints an SPL token with metadata accounts; Metaplex Core keeps everything in one asset account;
+// Token-2022 stores the metadata in the mint itself through the metadata pointer extension
+export type NftProgram = "token-metadata" | "core" | "token-2022"
+
 export interface NFTFormData {
   name: string
+  symbol?: string
   description: string
   image: File | null
+  existingImageUri?: string // Editing an NFT that already has artwork, a new image is optional
   images?: File[] // For batch/collection minting
+  unrevealed?: boolean // Collection only: mint with a placeholder and reveal the images later
+  placeholderImage?: File | null
   attributes: Array<{ trait_type: string; value: string }>
   royalty: number
-  collection?: string
+  creators?: CreatorShare[] // Royalty split; the connected wallet receives 100% when empty
+  isMutable?: boolean
+  updateAuthority?: string // Update authority when it isn't the minting wallet
+  collection?: string // Existing collection mint to mint into (collection and compressed mint types)
   // New fields for enhanced features
-  mintType: "single" | "collection"
+  mintType: "single" | "collection" | "editions" | "compressed"
+  program?: NftProgram // Defaults to token-metadata
+  freezable?: boolean // Core only: the update authority can freeze assets later
+  soulbound?: boolean // Core and Token-2022 only: minted NFTs can never leave the recipient's wallet
+  tokenStandard?: NftTokenStandard // Defaults to NonFungible
+  ruleSet?: string // Authorization rule set for programmable NFTs
   recipientAddress?: string
   recipients?: string[] // For batch airdrops
+  // Editions mint type
+  masterEdition?: string // Existing master edition mint to print from
+  maxSupply?: number // Max supply for a new master edition
+  editionCount?: number // Number of editions to print
+  // Compressed mint type
+  merkleTree?: string // Existing Merkle tree to mint into; a new one sized to the quantity is created otherwise
+  compressedCount?: number // Number of compressed NFTs to mint
 }
 
 export interface TraitLayer {
@@ -90,6 +121,24 @@ export function validateSolanaAddress(address: string): boolean {
   }
 }
 
+// One address per line; for CSV imports only the first column is used
+export function parseRecipientList(value: string): { valid: string[]; invalid: string[] } {
+  const valid: string[] = []
+  const invalid: string[] = []
+
+  for (const line of value.split(/\r?\n/)) {
+    const address = line.split(",")[0].trim()
+    if (!address) continue
+    if (validateSolanaAddress(address)) {
+      valid.push(address)
+    } else {
+      invalid.push(address)
+    }
+  }
+
+  return { valid, invalid }
+}
+
 export function validateNFTMetadata(formData: NFTFormData): ValidationResult {
   const errors: string[] = []
 
@@ -102,15 +151,25 @@ export function validateNFTMetadata(formData: NFTFormData): ValidationResult {
     errors.push(`NFT name must be less than ${CONFIG.NFT.maxNameLength} characters`)
   }
 
+  // Validate symbol (on-chain limit is in bytes, not characters)
+  if (formData.symbol && new TextEncoder().encode(formData.symbol.trim()).length > CONFIG.NFT.maxSymbolLength) {
+    errors.push(`Symbol must be at most ${CONFIG.NFT.maxSymbolLength} bytes`)
+  }
+
   // Validate description
   if (formData.description.length > CONFIG.NFT.maxDescriptionLength) {
     errors.push(`Description must be less than ${CONFIG.NFT.maxDescriptionLength} characters`)
   }
 
-  // Validate images based on mint type
-  if (formData.mintType === "single") {
+  // Validate images based on mint type; printing from an existing master edition needs no artwork
+  const printsFromExistingMaster = formData.mintType === "editions" && !!formData.masterEdition?.trim()
+  if (
+    formData.mintType === "single" ||
+    formData.mintType === "compressed" ||
+    (formData.mintType === "editions" && !printsFromExistingMaster)
+  ) {
     if (!formData.image) {
-      errors.push("NFT image is required")
+      if (!formData.existingImageUri) errors.push("NFT image is required")
     } else {
       const fileValidation = validateFile(formData.image)
       if (!fileValidation.isValid) {
@@ -130,6 +189,116 @@ export function validateNFTMetadata(formData: NFTFormData): ValidationResult {
     }
   }
 
+  // Validate unrevealed drops; the reveal updates each NFT's URI, so this wallet must stay its update authority
+  if (formData.unrevealed) {
+    if (formData.mintType !== "collection" || (formData.program ?? "token-metadata") !== "token-metadata") {
+      errors.push("Unrevealed drops are only available for Token Metadata collections")
+    }
+    if (formData.isMutable === false) {
+      errors.push("Unrevealed NFTs must stay mutable so they can be revealed")
+    }
+    if (formData.updateAuthority && formData.updateAuthority.trim()) {
+      errors.push("Unrevealed drops can't hand off the update authority before the reveal")
+    }
+    if (!formData.placeholderImage) {
+      errors.push("Placeholder image is required for an unrevealed drop")
+    } else {
+      const fileValidation = validateFile(formData.placeholderImage)
+      if (!fileValidation.isValid) {
+        errors.push(...fileValidation.errors.map((error) => `Placeholder: ${error}`))
+      }
+    }
+  }
+
+  // Validate edition supply
+  if (formData.mintType === "editions") {
+    const editionCount = formData.editionCount ?? 0
+    if (!Number.isInteger(editionCount) || editionCount < 1) {
+      errors.push("Number of editions must be at least 1")
+    }
+
+    if (printsFromExistingMaster) {
+      if (!validateSolanaAddress(formData.masterEdition!.trim())) {
+        errors.push("Invalid master edition address format")
+      }
+    } else {
+      const maxSupply = formData.maxSupply ?? 0
+      if (!Number.isInteger(maxSupply) || maxSupply < 1) {
+        errors.push("Max supply must be at least 1")
+      } else if (editionCount > maxSupply) {
+        errors.push("Number of editions cannot exceed the max supply")
+      }
+    }
+  }
+
+  // Validate compressed mint quantity and tree
+  if (formData.mintType === "compressed") {
+    const compressedCount = formData.compressedCount ?? 0
+    if (!Number.isInteger(compressedCount) || compressedCount < 1) {
+      errors.push("Number of compressed NFTs must be at least 1")
+    } else if ((formData.recipients?.length ?? 0) > compressedCount) {
+      errors.push("There are more recipients than compressed NFTs to mint")
+    }
+
+    if (formData.merkleTree && formData.merkleTree.trim() && !validateSolanaAddress(formData.merkleTree.trim())) {
+      errors.push("Invalid Merkle tree address format")
+    }
+    if (formData.tokenStandard === "ProgrammableNonFungible") {
+      errors.push("Compressed NFTs cannot be programmable")
+    }
+  }
+
+  // Validate existing collection address
+  if (
+    (formData.mintType === "collection" || formData.mintType === "compressed") &&
+    formData.collection &&
+    formData.collection.trim()
+  ) {
+    if (!validateSolanaAddress(formData.collection.trim())) {
+      errors.push("Invalid collection address format")
+    }
+  }
+
+  // Validate Metaplex Core and Token-2022 options
+  if (formData.program === "core") {
+    if (formData.mintType !== "single" && formData.mintType !== "collection") {
+      errors.push("Metaplex Core supports single and collection mints only")
+    }
+    if (formData.tokenStandard === "ProgrammableNonFungible") {
+      errors.push("Programmable NFTs use Token Metadata, not Metaplex Core")
+    }
+  } else if (formData.program === "token-2022") {
+    if (formData.mintType !== "single") {
+      errors.push("Token-2022 NFTs can only be minted one at a time")
+    }
+    if (formData.tokenStandard === "ProgrammableNonFungible") {
+      errors.push("Programmable NFTs use Token Metadata, not Token-2022")
+    }
+  }
+  if (formData.freezable && formData.program !== "core") {
+    errors.push("Freezable assets are only available with Metaplex Core")
+  }
+  // Token Metadata NFTs can only be frozen with the holder's signature, so they can't be made soulbound at mint
+  if (formData.soulbound && formData.program !== "core" && formData.program !== "token-2022") {
+    errors.push("Soulbound NFTs are only available with Metaplex Core or Token-2022")
+  }
+
+  // Validate update authority
+  if (formData.updateAuthority && formData.updateAuthority.trim()) {
+    if (!validateSolanaAddress(formData.updateAuthority.trim())) {
+      errors.push("Invalid update authority address format")
+    }
+  }
+
+  // Validate rule set
+  if (formData.ruleSet && formData.ruleSet.trim()) {
+    if (formData.tokenStandard !== "ProgrammableNonFungible") {
+      errors.push("A rule set can only be used with programmable NFTs")
+    } else if (!validateSolanaAddress(formData.ruleSet.trim())) {
+      errors.push("Invalid rule set address format")
+    }
+  }
+
   // Validate recipient address
   if (formData.recipientAddress && formData.recipientAddress.trim()) {
     if (!validateSolanaAddress(formData.recipientAddress.trim())) {
@@ -151,6 +320,32 @@ export function validateNFTMetadata(formData: NFTFormData): ValidationResult {
     errors.push("Royalty must be between 0% and 100%")
   }
 
+  // Validate creator royalty split
+  if (formData.creators && formData.creators.length > 0) {
+    if (formData.creators.length > CONFIG.NFT.maxCreators) {
+      errors.push(`Maximum ${CONFIG.NFT.maxCreators} creators allowed`)
+    }
+
+    for (const creator of formData.creators) {
+      if (!validateSolanaAddress(creator.address.trim())) {
+        errors.push(`Invalid creator address: ${creator.address || "(empty)"}`)
+      }
+      if (!Number.isInteger(creator.share) || creator.share < 0 || creator.share > 100) {
+        errors.push("Creator shares must be whole percentages between 0 and 100")
+      }
+    }
+
+    const creatorAddresses = formData.creators.map((creator) => creator.address.trim())
+    if (new Set(creatorAddresses).size !== creatorAddresses.length) {
+      errors.push("Duplicate creator addresses are not allowed")
+    }
+
+    const totalShare = formData.creators.reduce((sum, creator) => sum + creator.share, 0)
+    if (totalShare !== 100) {
+      errors.push(`Creator shares must add up to 100% (currently ${totalShare}%)`)
+    }
+  }
+
   // Validate attributes
   const validAttributes = formData.attributes.filter((attr) => attr.trait_type.trim() && attr.value.trim())
 
@@ -175,7 +370,14 @@ export function sanitizeMetadata(formData: NFTFormData): NFTFormData {
   return {
     ...formData,
     name: formData.name.trim(),
+    symbol: formData.symbol?.trim(),
     description: formData.description.trim(),
+    collection: formData.collection?.trim(),
+    updateAuthority: formData.updateAuthority?.trim(),
+    ruleSet: formData.ruleSet?.trim(),
+    masterEdition: formData.masterEdition?.trim(),
+    merkleTree: formData.merkleTree?.trim(),
+    creators: formData.creators?.map((creator) => ({ ...creator, address: creator.address.trim() })),
     recipientAddress: formData.recipientAddress?.trim(),
     recipients: formData.recipients?.map((addr) => addr.trim()).filter(Boolean),
     attributes: formData.attributes
@@ -1,11 +1,21 @@
 import { costAnalyzer } from "../lib/cost-analyzer"
 import { CONFIG } from "../lib/config"
+import type { PriorityFeeStrategy } from "../lib/compute-budget"
+
+// Optional priority fee in micro-lamports per compute unit, e.g. `--priority-fee 50000`, or `auto`
+function parsePriorityFee(): PriorityFeeStrategy {
+  const index = process.argv.indexOf("--priority-fee")
+  const value = index === -1 ? undefined : process.argv[index + 1]
+  if (!value) return { type: "none" }
+  if (value === "auto") return { type: "auto" }
+  return { type: "fixed", microLamports: Number(value) || 0 }
+}
 
 async function analyzeCosts() {
   console.log("🔍 Analyzing NFT Minting Costs Across Networks...\n")
 
   try {
-    const allCosts = await costAnalyzer.compareCostsAcrossNetworks()
+    const allCosts = await costAnalyzer.compareCostsAcrossNetworks(parsePriorityFee())
 
     for (const [network, costs] of Object.entries(allCosts)) {
       const networkName = CONFIG.NETWORKS[network as keyof typeof CONFIG.NETWORKS]?.name || network
@@ -0,0 +1,417 @@
+import { existsSync, openAsBlob, readFileSync, statSync, writeFileSync } from "fs"
+import { basename, dirname, extname, resolve } from "path"
+import { LAMPORTS_PER_SOL } from "@solana/web3.js"
+import { CONFIG, isEclipseNetwork, type NetworkType } from "../lib/config"
+import type { PriorityFeeStrategy } from "../lib/compute-budget"
+import type { EnhancedMintResult, MintAttempt } from "../lib/enhanced-metaplex-service"
+import { getErrorMessage } from "../lib/errors"
+import { KeypairWalletAdapter } from "../lib/keypair-wallet-adapter"
+import { buildExpectations, type MintVerification } from "../lib/mint-verification"
+import { getMintingEngine, getUnsupportedOptions, type MintingEngineId } from "../lib/minting-engine"
+import { buildMetadataJson } from "../lib/nft-metadata"
+import { serverIPFSService, type UploadResponse } from "../lib/server-ipfs-service"
+import {
+  validateNFTMetadata,
+  validateSolanaAddress,
+  type CreatorShare,
+  type NFTFormData,
+  type NftProgram,
+  type NftTokenStandard,
+} from "../lib/validation"
+
+// Mints a drop described by a manifest without a browser wallet:
+//
+//   PINATA_JWT=... pnpm mint-drop --keypair ~/.config/solana/id.json --manifest drop.json
+//
+// Image paths in the manifest are relative to the manifest. Progress is written to the results file
+// (`--out`, defaults to `<manifest>.results.json`) as it happens, so rerunning the same command resumes
+// an interrupted drop instead of uploading or minting anything twice.
+
+type Attribute = { trait_type: string; value: string }
+
+interface DropManifest {
+  network: NetworkType
+  mintType?: "single" | "collection" // Defaults to collection; single mints every item as its own NFT
+  name: string // Collection items are named "<name> #n"
+  symbol?: string
+  description: string
+  royalty?: number // Basis points, defaults to CONFIG.NFT.defaultRoyalty
+  attributes?: Attribute[] // Shared by every item unless the item sets its own
+  creators?: CreatorShare[]
+  isMutable?: boolean
+  updateAuthority?: string
+  tokenStandard?: NftTokenStandard
+  program?: Exclude<NftProgram, "token-2022"> // Defaults to token-metadata
+  freezable?: boolean
+  soulbound?: boolean
+  collection?: string // Existing collection to mint into; a new one is created from the first image otherwise
+  engine?: MintingEngineId // Token Metadata only, defaults to the same engine as the UI
+  concurrency?: number
+  items: Array<{
+    image: string
+    name?: string // Single mints only
+    description?: string
+    attributes?: Attribute[]
+    recipient?: string // Defaults to the keypair's wallet
+  }>
+}
+
+interface DropItemResult {
+  index: number
+  image: string
+  imageUri?: string
+  metadataUri?: string
+  pendingAttempt?: MintAttempt // Checked on-chain when resuming, so a transaction that landed isn't minted again
+  mintResult?: EnhancedMintResult
+  error?: string
+}
+
+interface DropResults {
+  network: NetworkType
+  wallet: string
+  engine: MintingEngineId
+  collectionMint?: string
+  collectionMetadataUri?: string
+  items: DropItemResult[]
+  verifications?: MintVerification[]
+  updatedAt: string
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+}
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+// Optional priority fee in micro-lamports per compute unit, e.g. `--priority-fee 50000`, or `auto`
+function parsePriorityFee(): PriorityFeeStrategy {
+  const value = getArg("priority-fee")
+  if (!value) return { type: "none" }
+  if (value === "auto") return { type: "auto" }
+  return { type: "fixed", microLamports: Number(value) || 0 }
+}
+
+function unwrapUpload(response: UploadResponse): string {
+  if (!response.success || !response.uri) throw new Error(response.error || "Upload failed")
+  return response.uri
+}
+
+function validateManifest(manifest: DropManifest, manifestDir: string): string[] {
+  const errors: string[] = []
+  if (!CONFIG.NETWORKS[manifest.network]) errors.push(`Unknown network "${manifest.network}"`)
+  if (!manifest.name?.trim()) errors.push("Name is required")
+  if (!manifest.items?.length) errors.push("The manifest has no items")
+  if ((manifest.program as NftProgram) === "token-2022") errors.push("Token-2022 drops aren't supported yet")
+
+  manifest.items?.forEach((item, i) => {
+    const path = resolve(manifestDir, item.image)
+    if (!IMAGE_TYPES[extname(path).toLowerCase()]) {
+      errors.push(`Item ${i + 1}: ${item.image} isn't a supported image type`)
+    } else if (!existsSync(path)) {
+      errors.push(`Item ${i + 1}: ${item.image} not found`)
+    } else if (statSync(path).size > CONFIG.FILE_VALIDATION.maxSize) {
+      errors.push(`Item ${i + 1}: ${item.image} is larger than 10MB`)
+    }
+    if (item.recipient && !validateSolanaAddress(item.recipient)) {
+      errors.push(`Item ${i + 1}: invalid recipient ${item.recipient}`)
+    }
+  })
+  return errors
+}
+
+// The drop as the UI's mint form would hold it, so it passes the same validation before anything is uploaded.
+// Images are opened as file-backed blobs and only read when uploaded.
+async function toFormData(
+  manifest: DropManifest,
+  manifestDir: string,
+  mintType: "single" | "collection",
+  program: NftProgram,
+): Promise<NFTFormData> {
+  const images = await Promise.all(
+    manifest.items.map(async (item) => {
+      const path = resolve(manifestDir, item.image)
+      const type = IMAGE_TYPES[extname(path).toLowerCase()]
+      return new File([await openAsBlob(path, { type })], basename(path), { type })
+    }),
+  )
+  return {
+    ...manifest,
+    mintType,
+    program,
+    image: mintType === "single" ? images[0] : null,
+    images, // Single mints only validate `image`; each item is checked with its own file below
+    attributes: manifest.attributes ?? [],
+    royalty: manifest.royalty ?? CONFIG.NFT.defaultRoyalty,
+    recipients: manifest.items.flatMap((item) => (item.recipient ? [item.recipient] : [])),
+  }
+}
+
+async function mintDrop() {
+  const keypairPath = getArg("keypair")
+  const manifestPath = getArg("manifest")
+  if (!keypairPath || !manifestPath) {
+    console.error("Usage: pnpm mint-drop --keypair <file> --manifest <file> [--out <file>] [--priority-fee <n|auto>]")
+    process.exitCode = 1
+    return
+  }
+
+  const manifestDir = dirname(resolve(manifestPath))
+  const outPath = getArg("out") ?? resolve(manifestDir, `${basename(manifestPath, extname(manifestPath))}.results.json`)
+  const manifest: DropManifest = JSON.parse(readFileSync(manifestPath, "utf-8"))
+  const wallet = KeypairWalletAdapter.fromSecretKey(JSON.parse(readFileSync(keypairPath, "utf-8")))
+  const walletAddress = wallet.publicKey.toString()
+  const mintType = manifest.mintType ?? "collection"
+  const program = manifest.program ?? "token-metadata"
+  const priorityFee = parsePriorityFee()
+
+  // Pick up where a previous run of the same drop stopped, on the engine it started with
+  const previous: DropResults | null = existsSync(outPath) ? JSON.parse(readFileSync(outPath, "utf-8")) : null
+  if (previous && (previous.network !== manifest.network || previous.wallet !== walletAddress)) {
+    console.error(`✗ ${outPath} belongs to a different network or wallet; pass --out to start a new results file`)
+    process.exitCode = 1
+    return
+  }
+  // Results are matched to manifest items by position, so the items can't change between runs
+  if (
+    previous &&
+    (previous.items.length !== manifest.items?.length ||
+      previous.items.some((item, i) => item.image !== manifest.items[i].image))
+  ) {
+    console.error(
+      `✗ The manifest's items changed since ${outPath} was written (${previous.items.length} saved, ${manifest.items?.length ?? 0} now); restore them or pass --out to start a new results file`,
+    )
+    process.exitCode = 1
+    return
+  }
+
+  // Same rule as the UI: only Token Metadata mints use the selected engine
+  const engine = getMintingEngine(previous?.engine ?? (program === "token-metadata" ? manifest.engine : undefined))
+
+  // Collection items are numbered like the UI names them; single mints can name each item
+  const itemName = (index: number) =>
+    mintType === "collection"
+      ? `${manifest.name} #${index + 1}`
+      : (manifest.items[index].name ?? (manifest.items.length === 1 ? manifest.name : `${manifest.name} #${index + 1}`))
+
+  // Files have to be readable before the form checks can look at them
+  let errors = validateManifest(manifest, manifestDir)
+  if (errors.length === 0) {
+    const formData = await toFormData(manifest, manifestDir, mintType, program)
+    errors = [
+      ...validateNFTMetadata(formData).errors,
+      ...getUnsupportedOptions(engine, formData, { priorityFee, switchHint: 'set "engine" in the manifest' }),
+    ]
+    // Single mints give every item its own name, description and attributes, so each is checked as its own form
+    if (mintType === "single") {
+      manifest.items.forEach((item, i) => {
+        const itemErrors = validateNFTMetadata({
+          ...formData,
+          name: itemName(i),
+          description: item.description ?? manifest.description,
+          attributes: item.attributes ?? formData.attributes,
+          image: formData.images![i],
+          recipientAddress: item.recipient,
+        }).errors
+        errors.push(...itemErrors.filter((error) => !errors.includes(error)).map((error) => `Item ${i + 1}: ${error}`))
+      })
+    }
+  }
+  if (errors.length > 0) {
+    errors.forEach((error) => console.error(`✗ ${error}`))
+    process.exitCode = 1
+    return
+  }
+
+  const results: DropResults = previous ?? {
+    network: manifest.network,
+    wallet: walletAddress,
+    engine: engine.id,
+    items: manifest.items.map((item, index) => ({ index, image: item.image })),
+    updatedAt: new Date().toISOString(),
+  }
+  const save = () => {
+    results.updatedAt = new Date().toISOString()
+    writeFileSync(outPath, JSON.stringify(results, null, 2))
+  }
+  if (previous) console.log(`↻ Resuming from ${outPath}`)
+
+  console.log(`🚀 Minting "${manifest.name}" on ${CONFIG.NETWORKS[manifest.network].name} with ${engine.name}`)
+  console.log(`   Wallet: ${walletAddress}, ${manifest.items.length} items\n`)
+
+  const fileType = (index: number) => IMAGE_TYPES[extname(manifest.items[index].image).toLowerCase()]
+
+  for (const item of results.items) {
+    const entry = manifest.items[item.index]
+    if (!item.imageUri) {
+      console.log(`⬆ Uploading image ${item.index + 1} of ${results.items.length}...`)
+      item.imageUri = unwrapUpload(
+        await serverIPFSService.uploadFile(
+          readFileSync(resolve(manifestDir, entry.image)),
+          `${manifest.name.replace(/\s+/g, "_")}_${item.index + 1}${extname(entry.image)}`,
+        ),
+      )
+      save()
+    }
+
+    if (!item.metadataUri) {
+      const metadata = buildMetadataJson({
+        name: itemName(item.index),
+        symbol: manifest.symbol,
+        description: entry.description ?? manifest.description,
+        imageUri: item.imageUri,
+        fileType: fileType(item.index),
+        attributes: entry.attributes ?? manifest.attributes ?? [],
+        royalty: manifest.royalty ?? CONFIG.NFT.defaultRoyalty,
+        creators: manifest.creators,
+        wallet: walletAddress,
+      })
+      item.metadataUri = unwrapUpload(await serverIPFSService.uploadJSON(metadata, `metadata_${item.index + 1}.json`))
+      save()
+    }
+  }
+
+  // The collection NFT itself needs metadata unless we're minting into an existing collection
+  if (mintType === "collection" && !manifest.collection && !results.collectionMint && !results.collectionMetadataUri) {
+    const { attributes, ...collectionMetadata } = buildMetadataJson({
+      name: manifest.name,
+      symbol: manifest.symbol,
+      description: manifest.description,
+      imageUri: results.items[0].imageUri!,
+      fileType: fileType(0),
+      attributes: [],
+      royalty: manifest.royalty ?? CONFIG.NFT.defaultRoyalty,
+      creators: manifest.creators,
+      wallet: walletAddress,
+    })
+    results.collectionMetadataUri = unwrapUpload(
+      await serverIPFSService.uploadJSON(collectionMetadata, "collection.json"),
+    )
+    save()
+  }
+
+  const pending = results.items.filter((item) => !item.mintResult)
+  const estimate = await engine.estimateCost(manifest.network, {
+    mintType,
+    quantity: pending.length,
+    includeParentNft: mintType === "collection" && !manifest.collection && !results.collectionMint,
+    tokenStandard: manifest.tokenStandard,
+    priorityFee,
+  })
+  const currency = isEclipseNetwork(manifest.network) ? "ETH" : "SOL"
+  console.log(
+    `\n💰 Estimated cost for ${pending.length} NFTs: ${(estimate / LAMPORTS_PER_SOL).toFixed(6)} ${currency}\n`,
+  )
+
+  const shared = {
+    description: manifest.description,
+    royalty: manifest.royalty ?? CONFIG.NFT.defaultRoyalty,
+    wallet,
+    network: manifest.network,
+    creators: manifest.creators,
+    symbol: manifest.symbol,
+    isMutable: manifest.isMutable,
+    updateAuthority: manifest.updateAuthority,
+    tokenStandard: manifest.tokenStandard,
+    program,
+    freezable: manifest.freezable,
+    soulbound: manifest.soulbound,
+    priorityFee,
+  }
+
+  if (mintType === "collection") {
+    // Engines that can't mint collections were rejected by getUnsupportedOptions
+    const batch = await engine.mintBatch!({
+      ...shared,
+      collectionName: manifest.name,
+      imageUris: results.items.map((item) => item.imageUri!),
+      metadataUris: results.items.map((item) => item.metadataUri!),
+      recipients: manifest.items.map((item) => item.recipient ?? ""),
+      collectionMint: manifest.collection ?? results.collectionMint,
+      collectionMetadataUri: results.collectionMetadataUri,
+      concurrency: manifest.concurrency,
+      completedResults: results.items.flatMap((item) => (item.mintResult ? [item.mintResult] : [])),
+      pendingAttempts: results.items.flatMap((item) =>
+        !item.mintResult && item.pendingAttempt ? [item.pendingAttempt] : [],
+      ),
+      onCollectionReady: (collectionMint) => {
+        results.collectionMint = collectionMint
+        save()
+      },
+      onItemSigned: async (attempt) => {
+        results.items[attempt.index].pendingAttempt = attempt
+        save()
+      },
+      onItemMinted: (index, mintResult) => {
+        results.items[index].mintResult = mintResult
+        results.items[index].error = undefined
+        save()
+      },
+      onProgress: (message, _current, _total, item) => {
+        // A finalized transaction re-reports an item that was already logged
+        if (item?.confirmation === "finalized") return
+        if (item?.state === "failed") results.items[item.index].error = item.error
+        if (!item || item.state === "succeeded" || item.state === "failed") console.log(`  ${message}`)
+      },
+    })
+    results.collectionMint = batch.collectionMint ?? results.collectionMint
+  } else {
+    for (const item of pending) {
+      try {
+        item.mintResult = await engine.mintSingle({
+          ...shared,
+          name: itemName(item.index),
+          description: manifest.items[item.index].description ?? manifest.description,
+          imageUri: item.imageUri!,
+          metadataUri: item.metadataUri!,
+          recipientAddress: manifest.items[item.index].recipient,
+        })
+        item.error = undefined
+        console.log(`  ✓ ${itemName(item.index)}: ${item.mintResult.mintAddress}`)
+      } catch (error) {
+        item.error = getErrorMessage(error)
+        console.log(`  ✗ ${itemName(item.index)}: ${item.error}`)
+      }
+      save()
+    }
+  }
+
+  const minted = results.items.flatMap((item) =>
+    item.mintResult ? [{ ...item.mintResult, index: item.mintResult.index ?? item.index }] : [],
+  )
+  console.log(`\n🔍 Verifying ${minted.length} NFTs on-chain...`)
+  results.verifications = await engine.verify({
+    items: buildExpectations(minted, {
+      wallet: walletAddress,
+      program,
+      // Single mints name items individually, so only collection names are checked
+      name: mintType === "collection" ? manifest.name : undefined,
+      numbered: true,
+      recipients: manifest.items.map((item) => item.recipient ?? ""),
+      creators: manifest.creators ?? [],
+      collection: results.collectionMint,
+      engine: engine.id,
+    }),
+    network: manifest.network,
+    program,
+    concurrency: manifest.concurrency,
+  })
+  save()
+
+  const failedMints = results.items.filter((item) => !item.mintResult).length
+  const failedChecks = results.verifications.filter((verification) => verification.status === "failed").length
+  console.log(`\n✅ ${minted.length} of ${results.items.length} minted, ${failedChecks} failed verification`)
+  console.log(`📄 Results written to ${outPath}`)
+  if (failedMints > 0 || failedChecks > 0) process.exitCode = 1
+}
+
+mintDrop().catch((error) => {
+  console.error("Drop failed:", getErrorMessage(error))
+  process.exitCode = 1
+})